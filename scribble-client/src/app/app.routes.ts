@@ -5,7 +5,8 @@ import { GameComponent } from './components/game/game.component';
 export const routes: Routes = [
   { path: '', component: LobbyComponent },
   { path: 'lobby', component: LobbyComponent },
-  { path: 'game', component: GameComponent },
+  { path: 'game/:roomCode', component: GameComponent },
+  { path: 'game', redirectTo: '' },
   { path: '**', redirectTo: '' }
 ];
 
@@ -0,0 +1,133 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+@Component({
+  selector: 'app-color-picker',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './color-picker.component.html',
+  styleUrl: './color-picker.component.css',
+})
+export class ColorPickerComponent implements OnChanges {
+  // Opaque colour as "#RRGGBB"
+  @Input() color: string = '#000000';
+  @Output() colorChange = new EventEmitter<string>();
+
+  // HSV model behind the picker (h: 0-360, s/v: 0-1)
+  hue: number = 0;
+  saturation: number = 0;
+  value: number = 0;
+  hexInput: string = '#000000';
+
+  private draggingPointerId: number | null = null;
+
+  ngOnChanges(): void {
+    // Don't fight the user while they drag or type
+    if (this.color.toUpperCase() === this.currentHex()) return;
+    this.setFromHex(this.color);
+  }
+
+  get hueColor(): string {
+    return hsvToHex(this.hue, 1, 1);
+  }
+
+  onAreaPointerDown(event: PointerEvent): void {
+    this.draggingPointerId = event.pointerId;
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    this.pickFromArea(event);
+  }
+
+  onAreaPointerMove(event: PointerEvent): void {
+    if (event.pointerId !== this.draggingPointerId) return;
+    this.pickFromArea(event);
+  }
+
+  onAreaPointerUp(event: PointerEvent): void {
+    if (event.pointerId === this.draggingPointerId) {
+      this.draggingPointerId = null;
+    }
+  }
+
+  onHueChange(hue: number): void {
+    this.hue = Number(hue);
+    this.emit();
+  }
+
+  onHexInput(value: string): void {
+    this.hexInput = value;
+    const hex = normalizeHex(value);
+    if (!hex) return;
+
+    this.setFromHex(hex);
+    this.colorChange.emit(hex);
+  }
+
+  private pickFromArea(event: PointerEvent): void {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    this.saturation = Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width));
+    this.value = 1 - Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height));
+    this.emit();
+  }
+
+  private emit(): void {
+    const hex = this.currentHex();
+    this.hexInput = hex;
+    this.colorChange.emit(hex);
+  }
+
+  private currentHex(): string {
+    return hsvToHex(this.hue, this.saturation, this.value);
+  }
+
+  private setFromHex(hex: string): void {
+    const normalized = normalizeHex(hex);
+    if (!normalized) return;
+
+    const [h, s, v] = hexToHsv(normalized);
+    // Keep the hue when the colour is grey, so the slider doesn't jump to red
+    if (s > 0 && v > 0) this.hue = h;
+    this.saturation = s;
+    this.value = v;
+    this.hexInput = normalized;
+  }
+}
+
+// "#abc" / "abc" / "#aabbcc" -> "#AABBCC", or null if it isn't a colour
+function normalizeHex(value: string): string | null {
+  let hex = value.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toUpperCase()}` : null;
+}
+
+function hsvToHex(h: number, s: number, v: number): string {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return '#' + [f(5), f(3), f(1)]
+    .map(c => Math.round(c * 255).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+function hexToHsv(hex: string): [number, number, number] {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  h = (h * 60 + 360) % 360;
+
+  return [h, max === 0 ? 0 : delta / max, max];
+}
@@ -0,0 +1,64 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAX_CUSTOM_WORDS, WordListCheck, checkWordList, parseWordList } from './word-list';
+
+@Component({
+  selector: 'app-custom-words',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './custom-words.component.html',
+  styleUrl: './custom-words.component.css',
+})
+export class CustomWordsComponent implements OnChanges {
+  // The room's saved custom words
+  @Input() words: string[] = [];
+  // Words the server refused on the last save
+  @Input() rejected: string[] = [];
+  @Output() save = new EventEmitter<string[]>();
+
+  readonly maxWords = MAX_CUSTOM_WORDS;
+
+  text: string = '';
+  check: WordListCheck = { valid: [], rejected: [] };
+
+  ngOnChanges(): void {
+    this.text = this.words.join('\n');
+    this.onTextChange(this.text);
+  }
+
+  get isDirty(): boolean {
+    return this.check.valid.join('\n') !== this.words.join('\n');
+  }
+
+  onTextChange(text: string): void {
+    this.text = text;
+    this.check = checkWordList(parseWordList(text));
+  }
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    // Imported words are added to whatever is already in the box
+    const imported = await file.text();
+    this.onTextChange(this.text ? `${this.text}\n${imported}` : imported);
+    input.value = '';
+  }
+
+  saveWords(): void {
+    if (this.check.valid.length > MAX_CUSTOM_WORDS) return;
+    this.save.emit(this.check.valid);
+  }
+
+  exportWords(): void {
+    const blob = new Blob([this.words.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'custom-words.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,44 @@
+// Same limits the server applies to custom words
+export const MAX_CUSTOM_WORDS = 500;
+export const MIN_WORD_LENGTH = 2;
+export const MAX_WORD_LENGTH = 30;
+
+// Letters and digits, with single spaces, hyphens or apostrophes between them
+const WORD_PATTERN = /^[\p{L}\p{N}]+(?:[ '\-][\p{L}\p{N}]+)*$/u;
+
+export interface WordListCheck {
+  valid: string[];
+  rejected: string[];
+}
+
+/**
+ * Split pasted text or a .txt/.csv file into words: one per line, or
+ * separated by commas, semicolons or tabs. Surrounding quotes are dropped.
+ */
+export function parseWordList(text: string): string[] {
+  return text
+    .split(/[\r\n,;\t]+/)
+    .map(word => word.trim().replace(/^["']+|["']+$/g, '').replace(/\s+/g, ' ').trim())
+    .filter(word => word.length > 0);
+}
+
+// Sort words into usable and rejected ones, dropping duplicates (ignoring case)
+export function checkWordList(words: string[]): WordListCheck {
+  const seen = new Set<string>();
+  const result: WordListCheck = { valid: [], rejected: [] };
+
+  for (const word of words) {
+    if (word.length < MIN_WORD_LENGTH || word.length > MAX_WORD_LENGTH || !WORD_PATTERN.test(word)) {
+      result.rejected.push(word);
+      continue;
+    }
+
+    const key = word.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.valid.push(word);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,431 @@
+import { Rgba, floodFill, parseHexColor } from './flood-fill';
+
+/*
+ * Coordinates in the model (and on the wire) are normalised to the board:
+ * x and y run 0..1 across its width and height, line widths are a fraction
+ * of its width. Rendering maps them onto whatever backing store the canvas has.
+ */
+
+// Board width / height
+export const BOARD_ASPECT = 2;
+
+// Board pixel space of legacy "draw" messages; brush sizes are picked in these units
+export const REFERENCE_BOARD_WIDTH = 1200;
+export const REFERENCE_BOARD_HEIGHT = 600;
+
+export type StrokeTool = 'brush' | 'eraser';
+
+// Area painted by a fill on the reference board, cropped to its bounding box
+interface FillMask {
+  canvas: HTMLCanvasElement;
+  x: number;
+  y: number;
+}
+
+// A stroke on the board, kept so the canvas can be re-rendered at any time
+export interface BoardStroke {
+  kind: 'stroke';
+  id: string;
+  tool: StrokeTool;
+  color: string;
+  lineWidth: number;
+  points: number[];      // Normalised, flattened as [x0, y0, x1, y1, ...]
+  pressures?: number[];  // Pen pressure per point (0..1), if any
+  isFinal: boolean;
+  hidden: boolean;       // Undone strokes stay in the model so they can be redone
+  render: StrokeRenderState;
+}
+
+// A paint-bucket fill seeded at (x, y)
+export interface BoardFill {
+  kind: 'fill';
+  id: string;
+  x: number;
+  y: number;
+  color: string;
+  isFinal: true;
+  hidden: boolean;
+}
+
+export type ShapeKind = 'line' | 'rect' | 'ellipse';
+
+// A straight line, rectangle or ellipse spanning (x0, y0) to (x1, y1)
+export interface ShapeSpec {
+  shape: ShapeKind;
+  filled: boolean;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  color: string;
+  lineWidth: number;
+}
+
+export interface BoardShape extends ShapeSpec {
+  kind: 'shape';
+  id: string;
+  isFinal: true;
+  hidden: boolean;
+}
+
+export type BoardOperation = BoardStroke | BoardFill | BoardShape;
+
+/**
+ * Draw a shape onto any context. Also used for the drawer's live preview layer.
+ */
+export function drawShape(ctx: CanvasRenderingContext2D, spec: ShapeSpec): void {
+  const { width, height } = ctx.canvas;
+  const x0 = spec.x0 * width;
+  const y0 = spec.y0 * height;
+  const x1 = spec.x1 * width;
+  const y1 = spec.y1 * height;
+
+  ctx.save();
+  ctx.strokeStyle = spec.color;
+  ctx.fillStyle = spec.color;
+  ctx.lineWidth = Math.max(1, spec.lineWidth * width);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.beginPath();
+  switch (spec.shape) {
+    case 'line':
+      ctx.moveTo(x0, y0);
+      ctx.lineTo(x1, y1);
+      break;
+    case 'rect':
+      ctx.rect(Math.min(x0, x1), Math.min(y0, y1), Math.abs(x1 - x0), Math.abs(y1 - y0));
+      break;
+    case 'ellipse':
+      ctx.ellipse((x0 + x1) / 2, (y0 + y1) / 2, Math.abs(x1 - x0) / 2, Math.abs(y1 - y0) / 2, 0, 0, Math.PI * 2);
+      break;
+  }
+
+  // A line has no area, so "filled" only applies to rectangles and ellipses
+  if (spec.filled && spec.shape !== 'line') {
+    ctx.fill();
+  } else {
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// Incremental rendering state of one stroke (smoothed with quadratic curves), in canvas pixels
+interface StrokeRenderState {
+  lastX: number;
+  lastY: number;
+  lastPressure: number;
+  midX: number;
+  midY: number;
+  pointCount: number;
+  // Canvas before a translucent stroke started, restored before each repaint of it
+  background?: ImageData;
+}
+
+/**
+ * Ordered operation model of the canvas. New points are drawn incrementally,
+ * while undo/redo re-renders the whole board from the model.
+ *
+ * Fills can't run on the visible canvas: its pixel size depends on the
+ * player's screen, and a gap that is sealed at one resolution leaks at
+ * another. So every operation is mirrored onto a board of the fixed
+ * reference size, the flood runs there, and the visible canvas gets the
+ * resulting area scaled to fit.
+ */
+export class DrawingBoard {
+  private operations: BoardOperation[] = [];
+  private operationsById = new Map<string, BoardOperation>();
+
+  // The reference-size mirror (null on the mirror itself), and the areas its fills painted
+  private reference: DrawingBoard | null;
+  private fillMasks = new Map<string, FillMask>();
+
+  constructor(private ctx: CanvasRenderingContext2D, mirrored = true) {
+    this.reference = mirrored ? new DrawingBoard(createReferenceContext(), false) : null;
+  }
+
+  /**
+   * Append points to a stroke (creating it on first use) and draw them.
+   */
+  addPoints(id: string, tool: StrokeTool, color: string, lineWidth: number, points: number[],
+    pressures: number[] | undefined, isFinal: boolean): void {
+    this.reference?.addPoints(id, tool, color, lineWidth, points, pressures, isFinal);
+
+    let stroke = this.operationsById.get(id);
+    if (!stroke) {
+      stroke = { kind: 'stroke', id, tool, color, lineWidth, points: [], isFinal: false, hidden: false, render: this.createRenderState() };
+      this.operations.push(stroke);
+      this.operationsById.set(id, stroke);
+    }
+    if (stroke.kind !== 'stroke' || stroke.isFinal) return;
+
+    stroke.points.push(...points);
+    if (pressures) {
+      stroke.pressures = [...(stroke.pressures ?? []), ...pressures];
+    }
+    stroke.isFinal = isFinal;
+
+    if (!stroke.hidden) {
+      this.renderStroke(stroke, points, isFinal, pressures);
+    }
+  }
+
+  /**
+   * Paint-bucket fill of the area connected to (x, y).
+   */
+  fill(id: string, x: number, y: number, color: string): void {
+    if (this.operationsById.has(id)) return;
+    this.reference?.fill(id, x, y, color);
+
+    const fill: BoardFill = { kind: 'fill', id, x, y, color, isFinal: true, hidden: false };
+    this.operations.push(fill);
+    this.operationsById.set(id, fill);
+    this.renderFill(fill);
+  }
+
+  /**
+   * Add a finished shape (line, rectangle or ellipse).
+   */
+  addShape(id: string, spec: ShapeSpec): void {
+    if (this.operationsById.has(id)) return;
+    this.reference?.addShape(id, spec);
+
+    const shape: BoardShape = { ...spec, kind: 'shape', id, isFinal: true, hidden: false };
+    this.operations.push(shape);
+    this.operationsById.set(id, shape);
+    drawShape(this.ctx, shape);
+  }
+
+  /**
+   * Hide (undo) or show (redo) an operation. Returns false if nothing changed.
+   */
+  setHidden(id: string, hidden: boolean): boolean {
+    const operation = this.operationsById.get(id);
+    if (!operation || operation.hidden === hidden) return false;
+
+    // The mirror redraws first, which works out every fill's area again in order
+    this.reference?.setHidden(id, hidden);
+    operation.hidden = hidden;
+    this.redraw();
+    return true;
+  }
+
+  // Most recent finished operation that is still visible
+  lastVisibleOperationId(): string | null {
+    for (let i = this.operations.length - 1; i >= 0; i--) {
+      const operation = this.operations[i];
+      if (operation.isFinal && !operation.hidden) return operation.id;
+    }
+    return null;
+  }
+
+  clear(): void {
+    this.reference?.clear();
+    this.operations = [];
+    this.operationsById.clear();
+    this.fillMasks.clear();
+    this.clearCanvas();
+  }
+
+  redraw(): void {
+    this.clearCanvas();
+    for (const operation of this.operations) {
+      if (operation.kind === 'fill') {
+        if (!operation.hidden) this.renderFill(operation);
+        continue;
+      }
+      if (operation.kind === 'shape') {
+        if (!operation.hidden) drawShape(this.ctx, operation);
+        continue;
+      }
+
+      operation.render = this.createRenderState();
+      if (!operation.hidden) {
+        this.renderStroke(operation, operation.points, operation.isFinal, operation.pressures);
+      }
+    }
+  }
+
+  private clearCanvas(): void {
+    this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+  }
+
+  private createRenderState(): StrokeRenderState {
+    return { lastX: 0, lastY: 0, lastPressure: 0.5, midX: 0, midY: 0, pointCount: 0 };
+  }
+
+  private renderStroke(stroke: BoardStroke, points: number[], isFinal: boolean, pressures?: number[]): void {
+    // Overlapping segments would darken a translucent line, so it is drawn as a single path
+    if (stroke.tool === 'brush' && !stroke.pressures && parseHexColor(stroke.color)[3] < 255) {
+      this.renderTranslucentStroke(stroke, isFinal);
+    } else {
+      this.renderStrokePoints(stroke, points, isFinal, pressures);
+    }
+  }
+
+  /**
+   * Repaint the whole stroke as one path on top of the canvas as it was
+   * before the stroke started.
+   */
+  private renderTranslucentStroke(stroke: BoardStroke, isFinal: boolean): void {
+    const ctx = this.ctx;
+    const state = stroke.render;
+    const { width, height } = ctx.canvas;
+    const points = stroke.points;
+    if (points.length < 2) return;
+
+    if (state.background) {
+      ctx.putImageData(state.background, 0, 0);
+    } else if (!isFinal) {
+      state.background = ctx.getImageData(0, 0, width, height);
+    }
+
+    ctx.save();
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = Math.max(1, stroke.lineWidth * width);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    ctx.beginPath();
+    ctx.moveTo(points[0] * width, points[1] * height);
+    for (let i = 2; i + 3 < points.length; i += 2) {
+      const midX = (points[i] + points[i + 2]) / 2 * width;
+      const midY = (points[i + 1] + points[i + 3]) / 2 * height;
+      ctx.quadraticCurveTo(points[i] * width, points[i + 1] * height, midX, midY);
+    }
+    ctx.lineTo(points[points.length - 2] * width, points[points.length - 1] * height);
+    ctx.stroke();
+    ctx.restore();
+
+    if (isFinal) {
+      state.background = undefined;
+    }
+  }
+
+  /**
+   * Continue a stroke with new points, drawing a quadratic curve through each
+   * point towards the midpoint of the next one. The tail segment is only drawn
+   * once the stroke is final, so chunks join up seamlessly.
+   * Pen pressure (0..1, 0.5 = nominal) scales the width of each segment.
+   */
+  private renderStrokePoints(stroke: BoardStroke, points: number[], isFinal: boolean, pressures?: number[]): void {
+    const ctx = this.ctx;
+    const state = stroke.render;
+    const { width, height } = ctx.canvas;
+    const lineWidth = stroke.lineWidth * width;
+
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    // The eraser punches through to the (white) board behind the canvas, always at full strength
+    ctx.strokeStyle = stroke.tool === 'eraser' ? '#000000' : stroke.color;
+    ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+
+    for (let i = 0; i + 1 < points.length; i += 2) {
+      const x = points[i] * width;
+      const y = points[i + 1] * height;
+      const pressure = pressures?.[i / 2] ?? 0.5;
+
+      if (state.pointCount === 0) {
+        state.midX = x;
+        state.midY = y;
+      } else {
+        const midX = (state.lastX + x) / 2;
+        const midY = (state.lastY + y) / 2;
+
+        ctx.lineWidth = this.pressureWidth(lineWidth, (state.lastPressure + pressure) / 2);
+        ctx.beginPath();
+        ctx.moveTo(state.midX, state.midY);
+        ctx.quadraticCurveTo(state.lastX, state.lastY, midX, midY);
+        ctx.stroke();
+
+        state.midX = midX;
+        state.midY = midY;
+      }
+
+      state.lastX = x;
+      state.lastY = y;
+      state.lastPressure = pressure;
+      state.pointCount++;
+    }
+
+    if (isFinal && state.pointCount > 0) {
+      // Finish the tail (also renders single-click dots thanks to round caps)
+      ctx.lineWidth = this.pressureWidth(lineWidth, state.lastPressure);
+      ctx.beginPath();
+      ctx.moveTo(state.midX, state.midY);
+      ctx.lineTo(state.lastX, state.lastY);
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+
+  private renderFill(fill: BoardFill): void {
+    if (this.reference) {
+      const mask = this.reference.fillMasks.get(fill.id);
+      if (!mask) return;
+
+      const { width, height } = this.ctx.canvas;
+      const scaleX = width / REFERENCE_BOARD_WIDTH;
+      const scaleY = height / REFERENCE_BOARD_HEIGHT;
+      this.ctx.drawImage(mask.canvas, mask.x * scaleX, mask.y * scaleY,
+        mask.canvas.width * scaleX, mask.canvas.height * scaleY);
+      return;
+    }
+
+    // On the mirror: flood its own pixels and keep the painted area for the visible board
+    this.fillMasks.delete(fill.id);
+    const { width, height } = this.ctx.canvas;
+    const image = this.ctx.getImageData(0, 0, width, height);
+    const x = Math.min(width - 1, Math.floor(fill.x * width));
+    const y = Math.min(height - 1, Math.floor(fill.y * height));
+    const filled = floodFill(image, x, y, parseHexColor(fill.color));
+    if (filled) {
+      this.ctx.putImageData(image, 0, 0);
+      this.fillMasks.set(fill.id, cropFillMask(filled, width, height, parseHexColor(fill.color)));
+    }
+  }
+
+  private pressureWidth(lineWidth: number, pressure: number): number {
+    return Math.max(1, lineWidth * pressure * 2);
+  }
+}
+
+function createReferenceContext(): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = REFERENCE_BOARD_WIDTH;
+  canvas.height = REFERENCE_BOARD_HEIGHT;
+  return canvas.getContext('2d', { willReadFrequently: true })!;
+}
+
+// Paints the filled pixels of a mask onto a canvas just big enough to hold them
+function cropFillMask(filled: Uint8Array, width: number, height: number, color: Rgba): FillMask {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled[y * width + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = maxX - minX + 1;
+  canvas.height = maxY - minY + 1;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(canvas.width, canvas.height);
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (filled[y * width + x]) {
+        image.data.set(color, ((y - minY) * canvas.width + (x - minX)) * 4);
+      }
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+
+  return { canvas, x: minX, y: minY };
+}
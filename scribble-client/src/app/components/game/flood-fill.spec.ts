@@ -0,0 +1,110 @@
+import { FILL_TOLERANCE, Rgba, floodFill, parseHexColor } from './flood-fill';
+
+const WHITE: Rgba = [255, 255, 255, 255];
+const BLACK: Rgba = [0, 0, 0, 255];
+const RED: Rgba = [255, 0, 0, 255];
+
+function image(width: number, height: number, color: Rgba = WHITE): ImageData {
+  const result = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    result.data.set(color, i * 4);
+  }
+  return result;
+}
+
+function pixel(img: ImageData, x: number, y: number): number[] {
+  const offset = (y * img.width + x) * 4;
+  return Array.from(img.data.slice(offset, offset + 4));
+}
+
+function setPixel(img: ImageData, x: number, y: number, color: Rgba): void {
+  img.data.set(color, (y * img.width + x) * 4);
+}
+
+describe('parseHexColor', () => {
+  it('reads short, long and alpha hex colours', () => {
+    expect(parseHexColor('#f00')).toEqual([255, 0, 0, 255]);
+    expect(parseHexColor('#00ff00')).toEqual([0, 255, 0, 255]);
+    expect(parseHexColor('#0000ff80')).toEqual([0, 0, 255, 128]);
+  });
+
+  it('falls back to opaque black for anything else', () => {
+    expect(parseHexColor('red')).toEqual([0, 0, 0, 255]);
+    expect(parseHexColor('#12345')).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe('floodFill', () => {
+  it('fills the whole board from a corner when nothing is in the way', () => {
+    const img = image(4, 3);
+
+    const mask = floodFill(img, 0, 0, RED);
+
+    expect(mask).not.toBeNull();
+    expect(Array.from(mask!).every(v => v === 1)).toBeTrue();
+    expect(pixel(img, 3, 2)).toEqual(RED);
+  });
+
+  it('stops at a wall and leaves the other side alone', () => {
+    const img = image(5, 3);
+    for (let y = 0; y < 3; y++) setPixel(img, 2, y, BLACK);
+
+    const mask = floodFill(img, 0, 1, RED)!;
+
+    expect(pixel(img, 1, 1)).toEqual(RED);
+    expect(pixel(img, 2, 1)).toEqual(BLACK);
+    expect(pixel(img, 3, 1)).toEqual(WHITE);
+    expect(mask[1 * 5 + 3]).toBe(0);
+  });
+
+  it('swallows colours within the tolerance but not beyond it', () => {
+    const img = image(3, 1);
+    const near = 255 - FILL_TOLERANCE;
+    const far = 255 - FILL_TOLERANCE - 1;
+    setPixel(img, 1, 0, [near, near, near, 255]);
+    setPixel(img, 2, 0, [far, far, far, 255]);
+
+    floodFill(img, 0, 0, RED);
+
+    expect(pixel(img, 1, 0)).toEqual(RED);
+    expect(pixel(img, 2, 0)).toEqual([far, far, far, 255]);
+  });
+
+  it('uses the tolerance it is given', () => {
+    const img = image(2, 1);
+    setPixel(img, 1, 0, [254, 255, 255, 255]);
+
+    floodFill(img, 0, 0, RED, 0);
+
+    expect(pixel(img, 1, 0)).toEqual([254, 255, 255, 255]);
+  });
+
+  it('terminates when the fill colour is itself within the tolerance', () => {
+    const img = image(3, 3);
+    const almostWhite: Rgba = [250, 250, 250, 255];
+
+    const mask = floodFill(img, 1, 1, almostWhite)!;
+
+    expect(Array.from(mask).every(v => v === 1)).toBeTrue();
+    expect(pixel(img, 0, 0)).toEqual(almostWhite);
+  });
+
+  it('does nothing for a seed off the board or already in the fill colour', () => {
+    const img = image(2, 2);
+
+    expect(floodFill(img, -1, 0, RED)).toBeNull();
+    expect(floodFill(img, 2, 0, RED)).toBeNull();
+    expect(floodFill(img, 0, 0, WHITE)).toBeNull();
+    expect(pixel(img, 0, 0)).toEqual(WHITE);
+  });
+
+  it('rounds a fractional seed down to its pixel', () => {
+    const img = image(2, 1);
+    setPixel(img, 1, 0, BLACK);
+
+    floodFill(img, 1.9, 0.5, RED);
+
+    expect(pixel(img, 0, 0)).toEqual(WHITE);
+    expect(pixel(img, 1, 0)).toEqual(RED);
+  });
+});
@@ -0,0 +1,92 @@
+// Default per-channel tolerance, enough to swallow anti-aliased line edges
+export const FILL_TOLERANCE = 48;
+
+export type Rgba = [number, number, number, number];
+
+/**
+ * Parse "#RGB", "#RRGGBB" or "#RRGGBBAA" into RGBA bytes.
+ * Anything else falls back to opaque black.
+ */
+export function parseHexColor(color: string): Rgba {
+  let hex = color.startsWith('#') ? color.slice(1) : color;
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    return [0, 0, 0, 255];
+  }
+
+  return [
+    parseInt(hex.slice(0, 2), 16),
+    parseInt(hex.slice(2, 4), 16),
+    parseInt(hex.slice(4, 6), 16),
+    hex.length === 8 ? parseInt(hex.slice(6, 8), 16) : 255
+  ];
+}
+
+/**
+ * Scanline flood fill: fills the area connected to (startX, startY) whose
+ * pixels are within `tolerance` (per RGBA channel) of the seed pixel.
+ * Works in place on the image data and returns the mask of filled pixels
+ * (1 = filled), or null if nothing was filled.
+ */
+export function floodFill(image: ImageData, startX: number, startY: number, fill: Rgba, tolerance = FILL_TOLERANCE): Uint8Array | null {
+  const { width, height, data } = image;
+  const sx = Math.floor(startX);
+  const sy = Math.floor(startY);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return null;
+
+  const seed = (sy * width + sx) * 4;
+  const target: Rgba = [data[seed], data[seed + 1], data[seed + 2], data[seed + 3]];
+  if (target.every((value, i) => value === fill[i])) return null;
+
+  // Filled pixels may still match the target (fill colour within tolerance), so track them
+  const visited = new Uint8Array(width * height);
+
+  const matches = (x: number, y: number): boolean => {
+    const index = y * width + x;
+    if (visited[index]) return false;
+
+    const offset = index * 4;
+    return Math.abs(data[offset] - target[0]) <= tolerance
+      && Math.abs(data[offset + 1] - target[1]) <= tolerance
+      && Math.abs(data[offset + 2] - target[2]) <= tolerance
+      && Math.abs(data[offset + 3] - target[3]) <= tolerance;
+  };
+
+  const paint = (x: number, y: number): void => {
+    const index = y * width + x;
+    visited[index] = 1;
+    data.set(fill, index * 4);
+  };
+
+  const stack: number[] = [sx, sy];
+  while (stack.length) {
+    const y = stack.pop()!;
+    let x = stack.pop()!;
+    if (!matches(x, y)) continue;
+
+    // Walk to the left end of this span
+    while (x > 0 && matches(x - 1, y)) x--;
+
+    // Paint the span, queueing one seed per run of matching pixels above and below
+    let spanAbove = false;
+    let spanBelow = false;
+    for (; x < width && matches(x, y); x++) {
+      paint(x, y);
+
+      if (y > 0) {
+        const above = matches(x, y - 1);
+        if (above && !spanAbove) stack.push(x, y - 1);
+        spanAbove = above;
+      }
+      if (y < height - 1) {
+        const below = matches(x, y + 1);
+        if (below && !spanBelow) stack.push(x, y + 1);
+        spanBelow = below;
+      }
+    }
+  }
+
+  return visited;
+}
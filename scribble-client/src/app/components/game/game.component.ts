@@ -1,66 +1,198 @@
 import { Component, OnInit, OnDestroy, AfterViewInit, ViewChild, ElementRef, ChangeDetectorRef, NgZone, HostListener } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { CommonModule, Location } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Router } from '@angular/router';
-import { Subject } from 'rxjs';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, merge } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
-import { SignalrService, DrawingData, ChatMessage, Player } from '../../services/signalr.service';
+import { SignalrService, ConnectionState } from '../../services/signalr.service';
+import {
+  DrawingData, ChatMessage, Player, RoomSettings, WordPack, RoundEndedEvent, ProtocolError, TeamStanding,
+  CanvasClearedEvent
+} from '../../services/hub-protocol';
+import { SessionService } from '../../services/session.service';
+import {
+  BOARD_ASPECT, DrawingBoard, REFERENCE_BOARD_HEIGHT, REFERENCE_BOARD_WIDTH, ShapeKind, ShapeSpec, StrokeTool, drawShape
+} from './drawing-board';
+import { ColorPickerComponent } from '../color-picker/color-picker.component';
+import { RoomSettingsComponent } from '../room-settings/room-settings.component';
+import { CustomWordsComponent } from '../custom-words/custom-words.component';
+
+export type DrawingTool = StrokeTool | 'fill' | ShapeKind;
+
+// A place on the final podium
+export interface PodiumEntry {
+  place: number;
+  player: Player;
+}
+
+// A team in the sidebar, with its players best first
+export interface TeamGroup {
+  team: number;
+  name: string;
+  color: string;
+  score: number;
+  players: Player[];
+}
+
+// Display names and colours by team number (the server allows up to 4 teams)
+const TEAMS = [
+  { name: 'Red', color: '#ff6b6b' },
+  { name: 'Blue', color: '#4dabf7' },
+  { name: 'Green', color: '#51cf66' },
+  { name: 'Yellow', color: '#fcc419' }
+];
+
+// One word of the masked answer ("__a__" -> 5 letters)
+export interface MaskedWordGroup {
+  chars: string[];
+  letterCount: number;
+}
+
+const SHAPE_TOOLS: DrawingTool[] = ['line', 'rect', 'ellipse'];
+
+// Recently used custom colours, persisted across sessions
+const RECENT_COLORS_KEY = 'recentColors';
+const MAX_RECENT_COLORS = 8;
+
+// How long the round breakdown takes to count up to the new scores (ms)
+const COUNT_UP_DURATION = 1200;
+
+// How often buffered stroke points are flushed to the hub (ms)
+const STROKE_FLUSH_INTERVAL = 40;
 
 @Component({
   selector: 'app-game',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, ColorPickerComponent, RoomSettingsComponent, CustomWordsComponent],
   templateUrl: './game.component.html',
   styleUrls: ['./game.component.css']
 })
 export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
   @ViewChild('canvas') canvasRef!: ElementRef<HTMLCanvasElement>;
+  @ViewChild('overlayCanvas') overlayCanvasRef!: ElementRef<HTMLCanvasElement>;
   @ViewChild('chatMessagesContainer') chatMessagesContainer!: ElementRef;
 
   // Game state
   roomCode: string = '';
   username: string = '';
+  nameInput: string = '';        // Name prompt for invite links opened without a saved name
+  needsName: boolean = false;
+  joinError: string = '';        // Why we couldn't get into the room (bad link, room full...)
+  inviteCopied: boolean = false;
+  mutedPlayers = new Set<string>();  // Usernames whose chat this client hides
+  connectionState: ConnectionState = 'connected';
+  protocolError: string = '';     // The server sent something this build doesn't understand
+  hasJoined: boolean = false;     // Got the room's state at least once
   players: Player[] = [];
   chatMessages: ChatMessage[] = [];
   currentMessage: string = '';
+  maxMessageLength: number = 100;  // The server's limit, sent on join
+  chatCooldown: number = 0;        // Seconds until the server takes messages from us again
   gameStarted: boolean = false;
   roundEnded: boolean = false;
+  choosingWord: boolean = false;  // The drawer is still picking the word
+  wordChoices: string[] = [];     // Words offered to me when I'm the one choosing
   isMyTurn: boolean = false;
   currentWord: string = '';
-  maskedWord: string = '';
+  maskedWordGroups: MaskedWordGroup[] = [];  // maskedWord split into words for display
   currentDrawer: string = '';
   timeRemaining: number = 80;
   roundNumber: number = 0;
-  roundEndData: any = null;
-  nextRoundCountdown: number = 0;  // ✅ Countdown before next round auto-starts
+  totalRounds: number = 0;
+  gameEnded: boolean = false;
+  roomSettings: RoomSettings | null = null;
+  wordPacks: WordPack[] = [];
+  customWords: string[] = [];          // Only sent to the host
+  rejectedCustomWords: string[] = [];
+  finalStandings: Player[] = [];
+  podium: PodiumEntry[] = [];  // In display order: 2nd, 1st, 3rd
+  roundEndData: RoundEndedEvent | null = null;
+  teams: TeamStanding[] = [];  // Team totals; empty unless teams are on
+  countUpProgress: number = 1;  // 0..1 through the round breakdown's count-up
+  nextRoundCountdown: number = 0;  // ✅ Countdown before the server starts the next round
 
   // Drawing tools
   colors: string[] = ['#000000', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FFA500'];
-  lineWidths: number[] = [2, 4, 6, 8, 12];
+  lineWidths: number[] = [2, 4, 6, 8, 12];  // In reference board pixels (1200 wide)
   selectedColor: string = '#000000';
+  selectedOpacity: number = 100;  // Percent
+  recentColors: string[] = this.loadRecentColors();
+  showColorPicker: boolean = false;
   selectedLineWidth: number = 2;
+  selectedTool: DrawingTool = 'brush';
+  shapeFilled: boolean = false;
+  usePenPressure: boolean = true;
 
   private canvas!: HTMLCanvasElement;
   private ctx!: CanvasRenderingContext2D;
+  private board: DrawingBoard | null = null;
+  private resizeObserver: ResizeObserver | null = null;
   private isDrawing = false;
   private destroy$ = new Subject<void>();
   private timerInterval: any;
   private nextRoundInterval: any;  // ✅ Countdown interval between rounds
-  private lastX: number = 0;
-  private lastY: number = 0;
+  private chatCooldownInterval: any;
+  private countUpInterval: any;
+  private lastSentMessage: string = '';
+  private clockOffset: number = 0;  // Server clock minus local clock (ms)
+  private inviteCopiedTimeout: any;
+
+  // Stroke batching (drawer side)
+  private currentStrokeId: string | null = null;
+  private currentStrokeTool: StrokeTool = 'brush';
+  private currentStrokeColor: string = '#000000';
+  private pendingPoints: number[] = [];
+  private pendingPressures: number[] = [];
+  private strokeUsesPressure = false;
+  private activePointerId: number | null = null;
+
+  // Shape being dragged out by the drawer (previewed on the overlay canvas)
+  private shapeStartX = 0;
+  private shapeStartY = 0;
+  private currentShape: ShapeSpec | null = null;
+  private strokeFlushInterval: any;
+
+  // Strokes the drawer undid, most recent last
+  private redoStack: string[] = [];
+
+  // Canvas replay: live drawings and clears are held back until the join sync has been drawn
+  private drawingSynced = false;
+  private lastDrawingSequence = 0;
+  private pendingDrawings: (DrawingData | CanvasClearedEvent)[] = [];
+  private legacySegmentCount = 0;
+
+  private _maskedWord: string = '';
+
+  get maskedWord(): string {
+    return this._maskedWord;
+  }
+
+  set maskedWord(value: string) {
+    this._maskedWord = value || '';
+    this.maskedWordGroups = this._maskedWord
+      .split(' ')
+      .filter(word => word.length > 0)
+      .map(word => {
+        const chars = word.split('');
+        return { chars, letterCount: chars.filter(c => c === '_' || /[\p{L}\p{N}]/u.test(c)).length };
+      });
+  }
 
   constructor(
     private signalrService: SignalrService,
+    private session: SessionService,
+    private route: ActivatedRoute,
+    private location: Location,
     private router: Router,
     private cdr: ChangeDetectorRef,
     private ngZone: NgZone  // ✅ Inject NgZone
   ) { }
 
   async ngOnInit(): Promise<void> {
-    this.roomCode = (localStorage.getItem('roomCode') || '').toUpperCase();
-    this.username = localStorage.getItem('username') || '';
+    this.roomCode = (this.route.snapshot.paramMap.get('roomCode') || '').toUpperCase();
+    this.username = this.session.getUsername();
 
-    if (!this.roomCode || !this.username) {
+    if (!this.roomCode) {
       this.router.navigate(['/']);
       return;
     }
@@ -68,6 +200,26 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
     // Setup subscriptions BEFORE setupCanvas
     this.setupSubscriptions();
 
+    // Invite link opened without a name: ask for one first
+    if (!this.username) {
+      this.needsName = true;
+      return;
+    }
+
+    await this.connectAndJoin();
+  }
+
+  async submitName(): Promise<void> {
+    const name = this.nameInput.trim();
+    if (!name) return;
+
+    this.session.setUsername(name);
+    this.username = name;
+    this.needsName = false;
+    await this.connectAndJoin();
+  }
+
+  private async connectAndJoin(): Promise<void> {
     // Always call joinRoom (it's idempotent) to ensure the player is in the group 
     // and receives the initial state (players, chat history).
     try {
@@ -77,8 +229,38 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
       await this.signalrService.joinRoom(this.roomCode, this.username);
     } catch (err) {
       console.error('Error connecting/syncing:', err);
-      // Optional: Show error to user or navigate back
+      this.joinError = err instanceof ProtocolError ? err.message : 'Could not connect to the game server';
+    }
+  }
+
+  get inviteLink(): string {
+    const path = this.location.prepareExternalUrl(this.router.serializeUrl(this.router.createUrlTree(['/game', this.roomCode])));
+    return `${window.location.origin}${path}`;
+  }
+
+  async copyInviteLink(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(this.inviteLink);
+    } catch {
+      // No clipboard access (e.g. plain http): let the user copy it by hand
+      window.prompt('Copy this invite link:', this.inviteLink);
+      return;
     }
+
+    this.inviteCopied = true;
+    clearTimeout(this.inviteCopiedTimeout);
+    this.inviteCopiedTimeout = setTimeout(() => {
+      this.inviteCopied = false;
+      this.cdr.detectChanges();
+    }, 2000);
+  }
+
+  backToLobby(): void {
+    this.router.navigate(['/']);
+  }
+
+  reload(): void {
+    window.location.reload();
   }
 
   ngAfterViewInit(): void {
@@ -93,6 +275,17 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
     if (this.nextRoundInterval) {
       clearInterval(this.nextRoundInterval);  // ✅ Clean up countdown
     }
+    if (this.strokeFlushInterval) {
+      clearInterval(this.strokeFlushInterval);
+    }
+    if (this.countUpInterval) {
+      clearInterval(this.countUpInterval);
+    }
+    if (this.chatCooldownInterval) {
+      clearInterval(this.chatCooldownInterval);
+    }
+    clearTimeout(this.inviteCopiedTimeout);
+    this.resizeObserver?.disconnect();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -105,6 +298,12 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
       this.ctx.lineJoin = 'round';
       this.ctx.lineWidth = this.selectedLineWidth;
       this.ctx.strokeStyle = this.selectedColor;
+      this.board = new DrawingBoard(this.ctx);
+
+      // Follow the size of the board area (window resizes, layout changes)
+      this.resizeCanvas();
+      this.resizeObserver = new ResizeObserver(() => this.resizeCanvas());
+      this.resizeObserver.observe(this.canvas.parentElement!);
       console.log('Canvas initialized');
     } catch (err) {
       console.error('Error initializing canvas:', err);
@@ -112,31 +311,74 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
   }
 
   private setupSubscriptions(): void {
+    this.signalrService.protocolError$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((message) => {
+        this.ngZone.run(() => {
+          this.protocolError = message;
+        });
+      });
+
+    // Connection banner; the service rejoins the room on its own once reconnected
+    this.signalrService.connectionState$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state) => {
+        this.ngZone.run(() => {
+          this.connectionState = state;
+          // Whatever is missed meanwhile comes back with the rejoin's snapshot
+          if (state !== 'connected') {
+            this.drawingSynced = false;
+          }
+        });
+      });
+
     // Player joined (handles sync on rejoin/refresh)
     this.signalrService.playerJoined$
       .pipe(takeUntil(this.destroy$))
       .subscribe((data) => {
         this.ngZone.run(() => {
           console.log('Player joined/synced:', data);
-          this.players = data.players || [];
+          this.hasJoined = true;
+          this.players = data.players;
+          // Our session token can bring back a seat under the name it was taken with
+          this.username = data.newPlayer.username;
 
           // ✅ Sync full game state (mid-game join/refresh)
-          this.gameStarted = data.gameStarted || false;
-          this.roundEnded = data.roundEnded || false;
+          this.gameStarted = data.gameStarted;
+          this.roundEnded = data.roundEnded;
+          this.choosingWord = data.choosingWord;
+          this.wordChoices = data.wordChoices || [];
           this.currentDrawer = data.currentDrawer || '';
-          this.maskedWord = data.maskedWord || '';
-          this.roundNumber = data.roundNumber ?? 0;
-          this.timeRemaining = data.timeRemaining ?? 80;
-          this.isMyTurn = this.currentDrawer === this.username;
+          this.maskedWord = data.maskedWord;
+          this.roundNumber = data.roundNumber;
+          this.totalRounds = data.totalRounds;
+          this.gameEnded = data.gameEnded;
+          this.roomSettings = data.settings;
+          this.teams = data.teams;
+          this.maxMessageLength = data.maxMessageLength;
+          this.wordPacks = data.wordPacks;
+          this.customWords = data.customWords || [];
+          this.isMyTurn = this.currentDrawer === this.username && !this.choosingWord;
+          this.currentWord = data.currentWord || '';
 
-          // ✅ Sync chat history if provided
-          if (data.chatHistory) {
-            this.chatMessages = data.chatHistory.map((msg: any) => ({
-              ...msg,
-              timestamp: new Date(msg.timestamp)
-            }));
-            this.scrollToBottom();
+          // ✅ Resume the countdowns from the server's deadlines
+          if (this.gameEnded) {
+            this.gameStarted = false;
+            this.showFinalResults(this.players);
+          } else if (this.choosingWord) {
+            this.startTimer(data.choiceEndsAt, data.serverTime);
+          } else if (this.gameStarted && !this.roundEnded) {
+            this.startTimer(data.roundEndsAt, data.serverTime);
+          } else if (this.roundEnded) {
+            this.startNextRoundCountdown(data.nextRoundAt, data.serverTime);
           }
+
+          // Replay the canvas of the current round
+          this.replayDrawingLog(data.drawingLog, data.drawingSequence);
+
+          // ✅ Sync chat history if provided
+          this.chatMessages = data.chatHistory;
+          this.scrollToBottom();
           this.cdr.detectChanges();
         });
       });
@@ -168,11 +410,24 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe((data) => {
         this.ngZone.run(() => {
-          if (this.ctx) {
-            this.ctx.strokeStyle = data.color;
-            this.ctx.lineWidth = data.lineWidth;
-            this.drawLine(data.prevX, data.prevY, data.x, data.y);
+          if (!this.drawingSynced) {
+            this.pendingDrawings.push(data);
+            return;
+          }
+          this.applyDrawing(data);
+        });
+      });
+
+    // Undo / redo of a whole stroke by the drawer
+    merge(this.signalrService.undoStroke$, this.signalrService.redoStroke$)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          if (!this.drawingSynced) {
+            this.pendingDrawings.push(data);
+            return;
           }
+          this.applyDrawing(data);
         });
       });
 
@@ -195,6 +450,33 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
         });
       });
 
+    // I'm the drawer and get to pick the word
+    this.signalrService.wordChoices$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          console.log('Word choices:', data);
+          this.startWordChoice(this.username, data.roundNumber);
+          this.totalRounds = data.totalRounds ?? this.totalRounds;
+          this.wordChoices = data.words || [];
+          this.startTimer(data.choiceEndsAt, data.serverTime);
+          this.cdr.detectChanges();
+        });
+      });
+
+    // Someone else is picking the word
+    this.signalrService.drawerChoosingWord$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          console.log('Drawer choosing word:', data);
+          this.startWordChoice(data.drawer, data.roundNumber);
+          this.totalRounds = data.totalRounds ?? this.totalRounds;
+          this.startTimer(data.choiceEndsAt, data.serverTime);
+          this.cdr.detectChanges();
+        });
+      });
+
     // Round started
     this.signalrService.roundStarted$
       .pipe(takeUntil(this.destroy$))
@@ -203,6 +485,7 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
           console.log('Round started:', data);
           this.gameStarted = true;
           this.roundEnded = false;
+          this.choosingWord = false;
           this.currentDrawer = data.drawer;
           this.isMyTurn = false;
           this.maskedWord = data.maskedWord;
@@ -214,7 +497,17 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
             p.hasGuessedCorrectly = false;
           });
 
-          this.startTimer();
+          this.startTimer(data.roundEndsAt, data.serverTime);
+          this.cdr.detectChanges();
+        });
+      });
+
+    // Another letter of the word was revealed
+    this.signalrService.hintRevealed$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          this.maskedWord = data.maskedWord;
           this.cdr.detectChanges();
         });
       });
@@ -229,6 +522,8 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
           this.currentWord = data.word;
           this.gameStarted = true;
           this.roundEnded = false;
+          this.choosingWord = false;
+          this.wordChoices = [];
           this.currentDrawer = this.username; // I am the drawer
           this.roundNumber = data.roundNumber ?? (this.roundNumber + 1);
 
@@ -238,7 +533,7 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
             p.hasGuessedCorrectly = false;
           });
 
-          this.startTimer();
+          this.startTimer(data.roundEndsAt, data.serverTime);
           this.cdr.detectChanges();
         });
       });
@@ -267,28 +562,93 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
           console.log('Round ended:', data);
           this.roundEnded = true;
           this.roundEndData = data;
+          this.teams = data.teams;
+          this.startCountUp();
           this.gameStarted = false;
+          this.choosingWord = false;
+          this.wordChoices = [];
           this.isMyTurn = false;
           if (this.timerInterval) {
             clearInterval(this.timerInterval);
             this.timerInterval = null;
           }
-          this.nextRoundCountdown = 5;
-          if (this.nextRoundInterval) clearInterval(this.nextRoundInterval);
-          this.nextRoundInterval = setInterval(() => {
-            this.ngZone.run(() => {
-              this.nextRoundCountdown--;
-              this.cdr.detectChanges();
-              if (this.nextRoundCountdown <= 0) {
-                clearInterval(this.nextRoundInterval);
-                this.nextRoundInterval = null;
-                if (this.isHost) {
-                  this.signalrService.nextRound(this.roomCode)
-                    .catch(err => console.error('Error starting next round:', err));
-                }
-              }
-            });
-          }, 1000);
+          // The server starts the next round on its own; this is display only
+          this.startNextRoundCountdown(data.nextRoundAt, data.serverTime);
+          this.cdr.detectChanges();
+        });
+      });
+
+    // Team line-up or team totals changed
+    this.signalrService.teamsUpdated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((teams) => {
+        this.ngZone.run(() => {
+          this.teams = teams;
+          this.cdr.detectChanges();
+        });
+      });
+
+    // Host changed the room settings
+    this.signalrService.settingsUpdated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((settings) => {
+        this.ngZone.run(() => {
+          console.log('Settings updated:', settings);
+          this.roomSettings = settings;
+          this.totalRounds = settings.rounds;
+          this.cdr.detectChanges();
+        });
+      });
+
+    // The host's custom words, as the server stored them
+    this.signalrService.customWordsUpdated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          this.customWords = data.words || [];
+          this.rejectedCustomWords = data.rejected || [];
+          this.cdr.detectChanges();
+        });
+      });
+
+    // All rounds played
+    this.signalrService.gameEnded$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          console.log('Game ended:', data);
+          this.gameEnded = true;
+          this.gameStarted = false;
+          this.roundEnded = false;
+          this.isMyTurn = false;
+          if (this.nextRoundInterval) {
+            clearInterval(this.nextRoundInterval);
+            this.nextRoundInterval = null;
+          }
+          this.teams = data.teams;
+          this.showFinalResults(data.players || []);
+          this.cdr.detectChanges();
+        });
+      });
+
+    // Host started over: back to the waiting room
+    this.signalrService.gameReset$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          console.log('Game reset:', data);
+          this.gameEnded = false;
+          this.gameStarted = false;
+          this.roundEnded = false;
+          this.roundEndData = null;
+          this.roundNumber = 0;
+          this.currentDrawer = '';
+          this.currentWord = '';
+          this.maskedWord = '';
+          this.players = data.players || [];
+          this.teams = data.teams;
+          this.finalStandings = [];
+          this.podium = [];
           this.cdr.detectChanges();
         });
       });
@@ -296,11 +656,36 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
     // Clear canvas
     this.signalrService.clearCanvas$
       .pipe(takeUntil(this.destroy$))
-      .subscribe(() => {
+      .subscribe((data) => {
+        this.ngZone.run(() => {
+          if (!this.drawingSynced) {
+            this.pendingDrawings.push(data);
+            return;
+          }
+          this.applyClear(data);
+        });
+      });
+
+    // Sending too fast: the message was dropped, so give it back and count down
+    this.signalrService.chatCooldown$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
         this.ngZone.run(() => {
-          if (this.ctx) {
-            this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+          if (!this.currentMessage && this.lastSentMessage) {
+            this.currentMessage = this.lastSentMessage;
           }
+          this.startChatCooldown(data.cooldownEndsAt, data.serverTime);
+        });
+      });
+
+    // Kicked, banned or voted out: back to the lobby with the reason
+    this.signalrService.kicked$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((data) => {
+        this.ngZone.run(async () => {
+          console.warn('Removed from room:', data.reason);
+          await this.signalrService.disconnect();
+          this.router.navigate(['/'], { state: { notice: data.reason } });
         });
       });
 
@@ -310,6 +695,16 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
       .subscribe((error) => {
         this.ngZone.run(() => {
           console.error('SignalR error:', error);
+          if (!this.hasJoined) {
+            this.joinError = error;
+          } else {
+            // Only we see it, like any other notice from the server
+            this.showNotice(error);
+          }
+          // A rejected settings change leaves the panel showing the room's real settings
+          if (this.roomSettings) {
+            this.roomSettings = { ...this.roomSettings };
+          }
         });
       });
   }
@@ -319,6 +714,109 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
     return me?.isHost || false;
   }
 
+  get teamMode(): boolean {
+    return (this.roomSettings?.teamCount ?? 0) > 0;
+  }
+
+  get teamGroups(): TeamGroup[] {
+    const players = this.getPlayersSorted();
+    return Array.from({ length: this.roomSettings?.teamCount ?? 0 }, (_, team) => ({
+      team,
+      ...this.teamStyle(team),
+      score: this.teams.find(t => t.team === team)?.score ?? 0,
+      players: players.filter(p => p.team === team)
+    }));
+  }
+
+  // Team totals, best first
+  get teamStandings(): (TeamStanding & { name: string; color: string })[] {
+    return [...this.teams]
+      .sort((a, b) => b.score - a.score)
+      .map(t => ({ ...t, ...this.teamStyle(t.team) }));
+  }
+
+  teamStyle(team: number | undefined): { name: string; color: string } {
+    return TEAMS[team ?? -1] ?? { name: `Team ${(team ?? 0) + 1}`, color: '#adb5bd' };
+  }
+
+  trackTeam(_: number, group: TeamGroup): number {
+    return group.team;
+  }
+
+  // Teams are set up in the waiting room only
+  get canEditTeams(): boolean {
+    return this.isHost && this.teamMode && !this.gameStarted && !this.roundEnded && !this.gameEnded;
+  }
+
+  async shuffleTeams(): Promise<void> {
+    await this.signalrService.shuffleTeams(this.roomCode);
+  }
+
+  async assignTeam(player: Player, team: number): Promise<void> {
+    await this.signalrService.assignTeam(this.roomCode, player.connectionId, team);
+  }
+
+  // Spectators watch without drawing, guessing or scoring
+  get isSpectator(): boolean {
+    const me = this.players.find(p => p.username === this.username);
+    return me?.isSpectator || false;
+  }
+
+  get spectators(): Player[] {
+    return this.players.filter(p => p.isSpectator);
+  }
+
+  // Players and spectators can only trade places between rounds
+  get canSwitchSeat(): boolean {
+    return this.hasJoined && (!this.gameStarted || this.roundEnded);
+  }
+
+  get hasFreeSlot(): boolean {
+    const playerCount = this.players.filter(p => !p.isSpectator).length;
+    return !this.roomSettings || playerCount < this.roomSettings.maxPlayers;
+  }
+
+  async setSpectating(spectate: boolean): Promise<void> {
+    await this.signalrService.setSpectating(this.roomCode, spectate);
+  }
+
+  isMe(player: Player): boolean {
+    return player.username === this.username;
+  }
+
+  isMuted(username: string): boolean {
+    return this.mutedPlayers.has(username);
+  }
+
+  // Local only: the player can still chat, we just don't see it
+  toggleMute(player: Player): void {
+    if (this.mutedPlayers.has(player.username)) {
+      this.mutedPlayers.delete(player.username);
+    } else {
+      this.mutedPlayers.add(player.username);
+    }
+  }
+
+  async kickPlayer(player: Player, ban: boolean): Promise<void> {
+    const action = ban ? 'Ban' : 'Kick';
+    if (!window.confirm(`${action} ${player.username}?`)) return;
+
+    await this.signalrService.kickPlayer(this.roomCode, player.connectionId, ban);
+  }
+
+  async voteKick(player: Player): Promise<void> {
+    if (!window.confirm(`Vote to kick ${player.username}?`)) return;
+
+    await this.signalrService.voteKick(this.roomCode, player.connectionId);
+  }
+
+  // The drawer and players who guessed chat in the private channel
+  get inInnerCircle(): boolean {
+    if (!this.gameStarted || this.roundEnded || this.choosingWord) return false;
+    const me = this.players.find(p => p.username === this.username);
+    return this.isMyTurn || (me?.hasGuessedCorrectly ?? false);
+  }
+
   get hostName(): string {
     const host = this.players.find(p => p.isHost);
     return host?.username || 'Unknown';
@@ -328,73 +826,540 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
     await this.signalrService.startGame(this.roomCode);
   }
 
-  @HostListener('window:mousemove', ['$event'])
-  onWindowMouseMove(event: MouseEvent): void {
-    if (!this.isDrawing || !this.isMyTurn || !this.canvas) return;
+  async saveSettings(settings: RoomSettings): Promise<void> {
+    await this.signalrService.updateSettings(this.roomCode, settings);
+  }
+
+  async saveCustomWords(words: string[]): Promise<void> {
+    await this.signalrService.setCustomWords(this.roomCode, words);
+  }
+
+  async playAgain(): Promise<void> {
+    await this.signalrService.playAgain(this.roomCode);
+  }
+
+  async chooseWord(word: string): Promise<void> {
+    if (!this.wordChoices.includes(word)) return;
+    await this.signalrService.chooseWord(this.roomCode, word);
+  }
+
+  // Nobody draws (or guesses) until the drawer has picked a word
+  private startWordChoice(drawer: string, roundNumber?: number): void {
+    this.gameStarted = true;
+    this.roundEnded = false;
+    this.choosingWord = true;
+    this.wordChoices = [];
+    this.isMyTurn = false;
+    this.currentWord = '';
+    this.maskedWord = '';
+    this.currentDrawer = drawer;
+    this.roundNumber = roundNumber ?? (this.roundNumber + 1);
 
+    this.players.forEach(p => {
+      p.isDrawing = (p.username.toLowerCase() === drawer.toLowerCase());
+      p.hasGuessedCorrectly = false;
+    });
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    // Only the first finger/pen/mouse button draws; extra touches are ignored
+    if (!this.isMyTurn || !this.canvas || this.activePointerId !== null) return;
+    if (!event.isPrimary || (event.pointerType === 'mouse' && event.button !== 0)) return;
+
+    event.preventDefault();
+
+    if (this.selectedTool === 'fill') {
+      const { x, y } = this.toBoardPoint(event);
+      this.fillAt(x, y);
+      return;
+    }
+
+    this.activePointerId = event.pointerId;
+    this.isDrawing = true;
+
+    // Keep receiving moves even when the pointer leaves the canvas
+    this.canvas.setPointerCapture(event.pointerId);
+
+    if (this.isShapeTool(this.selectedTool)) {
+      const { x, y } = this.toBoardPoint(event);
+      this.beginShape(x, y);
+      return;
+    }
+
+    this.strokeUsesPressure = this.usePenPressure && event.pointerType === 'pen';
+    const { x, y } = this.toBoardPoint(event);
+    this.beginStroke(x, y, this.readPressure(event));
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (!this.isDrawing || event.pointerId !== this.activePointerId || !this.isMyTurn) return;
+
+    if (this.currentShape) {
+      const { x, y } = this.toBoardPoint(event);
+      this.updateShape(x, y, event.shiftKey);
+      return;
+    }
+    if (!this.currentStrokeId) return;
+
+    // Coalesced events give the full-rate input the browser merged into this one
+    const events = event.getCoalescedEvents?.() ?? [];
+    for (const e of events.length ? events : [event]) {
+      const { x, y } = this.toBoardPoint(e);
+      this.addStrokePoint(x, y, this.readPressure(e));
+    }
+  }
+
+  onPointerUp(event: PointerEvent): void {
+    if (event.pointerId !== this.activePointerId) return;
+
+    if (this.canvas?.hasPointerCapture(event.pointerId)) {
+      this.canvas.releasePointerCapture(event.pointerId);
+    }
+    this.activePointerId = null;
+
+    if (!this.isDrawing) return;
+    this.isDrawing = false;
+
+    if (this.currentShape) {
+      // pointercancel/lostpointercapture carry no useful position, keep the last preview
+      if (event.type === 'pointerup') {
+        const { x, y } = this.toBoardPoint(event);
+        this.updateShape(x, y, event.shiftKey);
+      }
+      this.endShape();
+      return;
+    }
+    this.endStroke();
+  }
+
+  /**
+   * Map client coordinates to the canvas' internal pixel space,
+   * clamped to its bounds. Shared by every input type.
+   */
+  private toBoardPoint(event: { clientX: number; clientY: number }): { x: number; y: number } {
     const rect = this.canvas.getBoundingClientRect();
 
-    // Calculate scaling ratio between internal coordinates and actual display size
-    const scaleX = this.canvas.width / rect.width;
-    const scaleY = this.canvas.height / rect.height;
+    // Normalise against the displayed size, so the backing store resolution doesn't matter
+    return {
+      x: Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height))
+    };
+  }
+
+  /**
+   * Fit the canvas into the board area at the board's aspect ratio, with a
+   * backing store of devicePixelRatio pixels per CSS pixel, and re-render it.
+   */
+  @HostListener('window:resize')
+  resizeCanvas(): void {
+    const container = this.canvas?.parentElement;
+    if (!container || !this.board) return;
+
+    const cssWidth = Math.max(1, Math.min(container.clientWidth, container.clientHeight * BOARD_ASPECT));
+    const cssHeight = cssWidth / BOARD_ASPECT;
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.round(cssWidth * dpr);
+    const height = Math.round(cssHeight * dpr);
+
+    this.canvas.style.width = `${cssWidth}px`;
+    this.canvas.style.height = `${cssHeight}px`;
+    if (this.canvas.width === width && this.canvas.height === height) return;
+
+    // Resizing wipes the canvas, so render it again from the model
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.board.redraw();
+    if (this.currentShape) this.syncOverlayCanvas();
+  }
+
+  // Normalised coordinates keep 4 decimals (a tenth of a pixel on a 1200px board)
+  private roundCoordinate(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  // Brush sizes are picked in reference board pixels, sent as a fraction of the board width
+  private get normalizedLineWidth(): number {
+    return this.selectedLineWidth / REFERENCE_BOARD_WIDTH;
+  }
+
+  private readPressure(event: PointerEvent): number {
+    if (!this.strokeUsesPressure) return 0.5;
+    return Math.round(Math.max(0.05, Math.min(1, event.pressure)) * 100) / 100;
+  }
+
+  private createOperationId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  private beginStroke(x: number, y: number, pressure: number): void {
+    this.currentStrokeId = this.createOperationId();
+    this.currentStrokeTool = this.selectedTool === 'eraser' ? 'eraser' : 'brush';
+    this.currentStrokeColor = this.brushColor;
+    if (this.currentStrokeTool === 'brush') this.rememberColor(this.selectedColor);
+    this.pendingPoints = [];
+    this.pendingPressures = [];
+
+    // A new stroke makes the undone ones unreachable
+    this.redoStack = [];
+
+    this.addStrokePoint(x, y, pressure);
+
+    if (this.strokeFlushInterval) clearInterval(this.strokeFlushInterval);
+    this.strokeFlushInterval = setInterval(() => this.flushStroke(false), STROKE_FLUSH_INTERVAL);
+  }
+
+  private addStrokePoint(x: number, y: number, pressure: number): void {
+    if (!this.currentStrokeId) return;
+
+    x = this.roundCoordinate(x);
+    y = this.roundCoordinate(y);
+
+    const pressures = this.strokeUsesPressure ? [pressure] : undefined;
+    this.board?.addPoints(this.currentStrokeId, this.currentStrokeTool, this.currentStrokeColor, this.normalizedLineWidth,
+      [x, y], pressures, false);
+    this.pendingPoints.push(x, y);
+    if (pressures) this.pendingPressures.push(pressure);
+  }
+
+  private endStroke(): void {
+    if (this.strokeFlushInterval) {
+      clearInterval(this.strokeFlushInterval);
+      this.strokeFlushInterval = null;
+    }
+    if (!this.currentStrokeId) return;
+
+    this.board?.addPoints(this.currentStrokeId, this.currentStrokeTool, this.currentStrokeColor, this.normalizedLineWidth,
+      [], undefined, true);
+    this.flushStroke(true);
+    this.currentStrokeId = null;
+  }
+
+  /**
+   * Send buffered points of the current stroke as one "stroke" message.
+   * The points carry the whole chunk, so the single-segment fields stay zero.
+   */
+  private flushStroke(isFinal: boolean): void {
+    if (!this.currentStrokeId || (this.pendingPoints.length === 0 && !isFinal)) return;
+
+    const points = this.pendingPoints;
+    const pressures = this.pendingPressures;
+    this.pendingPoints = [];
+    this.pendingPressures = [];
+
+    this.signalrService.sendDrawing(this.roomCode, {
+      x: 0,
+      y: 0,
+      prevX: 0,
+      prevY: 0,
+      color: this.currentStrokeColor,
+      lineWidth: this.normalizedLineWidth,
+      action: this.currentStrokeTool === 'eraser' ? 'erase' : 'stroke',
+      strokeId: this.currentStrokeId,
+      points,
+      pressures: this.strokeUsesPressure ? pressures : undefined,
+      isFinal
+    }).catch(err => console.error('Error sending drawing:', err));
+  }
+
+  private isShapeTool(tool: DrawingTool): tool is ShapeKind {
+    return SHAPE_TOOLS.includes(tool);
+  }
+
+  private beginShape(x: number, y: number): void {
+    this.shapeStartX = x;
+    this.shapeStartY = y;
+    this.currentShape = {
+      shape: this.selectedTool as ShapeKind,
+      filled: this.shapeFilled,
+      x0: x,
+      y0: y,
+      x1: x,
+      y1: y,
+      color: this.brushColor,
+      lineWidth: this.normalizedLineWidth
+    };
+    this.syncOverlayCanvas();
+  }
+
+  /**
+   * Move the shape's end point and redraw the preview.
+   * Shift snaps lines to 45° steps and rectangles/ellipses to squares/circles.
+   */
+  private updateShape(x: number, y: number, constrain: boolean): void {
+    const shape = this.currentShape;
+    if (!shape) return;
+
+    // Work in units of the board height so angles and squares come out right on screen
+    let dx = (x - this.shapeStartX) * BOARD_ASPECT;
+    let dy = y - this.shapeStartY;
+
+    if (constrain && shape.shape === 'line') {
+      const length = Math.hypot(dx, dy);
+      const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+      dx = Math.cos(angle) * length;
+      dy = Math.sin(angle) * length;
+    } else if (constrain) {
+      const side = Math.max(Math.abs(dx), Math.abs(dy));
+      dx = (dx < 0 ? -1 : 1) * side;
+      dy = (dy < 0 ? -1 : 1) * side;
+    }
+
+    shape.x1 = this.roundCoordinate(this.shapeStartX + dx / BOARD_ASPECT);
+    shape.y1 = this.roundCoordinate(this.shapeStartY + dy);
+
+    const overlay = this.overlayCanvasRef?.nativeElement;
+    const overlayCtx = overlay?.getContext('2d');
+    if (!overlay || !overlayCtx) return;
+
+    overlayCtx.clearRect(0, 0, overlay.width, overlay.height);
+    drawShape(overlayCtx, shape);
+  }
+
+  // Only the finished shape is broadcast, never the preview
+  private endShape(): void {
+    const shape = this.currentShape;
+    this.currentShape = null;
+
+    const overlay = this.overlayCanvasRef?.nativeElement;
+    overlay?.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+
+    if (!shape || !this.board) return;
+
+    // Skip accidental clicks that never turned into a shape
+    if (shape.x0 === shape.x1 && shape.y0 === shape.y1) return;
+
+    const shapeId = this.createOperationId();
+    shape.x0 = this.roundCoordinate(shape.x0);
+    shape.y0 = this.roundCoordinate(shape.y0);
+    this.redoStack = [];
+    this.board.addShape(shapeId, shape);
+    this.rememberColor(this.selectedColor);
 
-    // Calculate relative coordinates and clamp to canvas bounds
-    const x = Math.max(0, Math.min(this.canvas.width, (event.clientX - rect.left) * scaleX));
-    const y = Math.max(0, Math.min(this.canvas.height, (event.clientY - rect.top) * scaleY));
+    this.signalrService.sendDrawing(this.roomCode, {
+      x: shape.x1,
+      y: shape.y1,
+      prevX: shape.x0,
+      prevY: shape.y0,
+      color: shape.color,
+      lineWidth: shape.lineWidth,
+      action: 'shape',
+      strokeId: shapeId,
+      shape: shape.shape,
+      filled: shape.filled
+    }).catch(err => console.error('Error sending shape:', err));
+  }
+
+  // Lay the preview canvas exactly over the (CSS-scaled) drawing canvas
+  private syncOverlayCanvas(): void {
+    const overlay = this.overlayCanvasRef?.nativeElement;
+    if (!overlay || !this.canvas) return;
+
+    overlay.width = this.canvas.width;
+    overlay.height = this.canvas.height;
+    overlay.style.left = `${this.canvas.offsetLeft}px`;
+    overlay.style.top = `${this.canvas.offsetTop}px`;
+    overlay.style.width = `${this.canvas.offsetWidth}px`;
+    overlay.style.height = `${this.canvas.offsetHeight}px`;
+  }
+
+  private fillAt(x: number, y: number): void {
+    if (!this.board) return;
 
-    this.drawLine(this.lastX, this.lastY, x, y);
+    x = this.roundCoordinate(x);
+    y = this.roundCoordinate(y);
+
+    const fillId = this.createOperationId();
+    const color = this.brushColor;
+    this.redoStack = [];
+    this.board.fill(fillId, x, y, color);
+    this.rememberColor(this.selectedColor);
 
     this.signalrService.sendDrawing(this.roomCode, {
       x,
       y,
-      prevX: this.lastX,
-      prevY: this.lastY,
-      color: this.selectedColor,
-      lineWidth: this.selectedLineWidth,
-      action: 'draw'
-    }).catch(err => console.error('Error sending drawing:', err));
+      prevX: x,
+      prevY: y,
+      color,
+      lineWidth: this.normalizedLineWidth,
+      action: 'fill',
+      strokeId: fillId
+    }).catch(err => console.error('Error sending fill:', err));
+  }
 
-    this.lastX = x;
-    this.lastY = y;
+  /**
+   * Redraw the round's drawing log from the join sync, then apply live
+   * drawings and clears that arrived meanwhile and are not already part of it.
+   */
+  private replayDrawingLog(log: DrawingData[], sequence: number): void {
+    this.board?.clear();
+    this.redoStack = [];
+
+    this.lastDrawingSequence = 0;
+    log.forEach(data => this.applyDrawing(data));
+    this.lastDrawingSequence = Math.max(this.lastDrawingSequence, sequence);
+
+    this.drawingSynced = true;
+    const pending = this.pendingDrawings;
+    this.pendingDrawings = [];
+    pending.forEach(data => 'action' in data ? this.applyDrawing(data) : this.applyClear(data));
   }
 
-  @HostListener('window:mouseup')
-  onWindowMouseUp(): void {
-    this.isDrawing = false;
+  private applyClear(data: CanvasClearedEvent): void {
+    // A clear the replayed log already starts after
+    if (data.sequence <= this.lastDrawingSequence) return;
+    this.lastDrawingSequence = data.sequence;
+
+    this.redoStack = [];
+    this.board?.clear();
   }
 
-  onMouseDown(event: MouseEvent): void {
-    if (!this.isMyTurn || !this.canvas) return;
-    this.isDrawing = true;
+  private applyDrawing(data: DrawingData): void {
+    if (!this.board) return;
 
-    const rect = this.canvas.getBoundingClientRect();
-    const scaleX = this.canvas.width / rect.width;
-    const scaleY = this.canvas.height / rect.height;
+    // Skip anything already drawn from the replayed log
+    if (data.sequence) {
+      if (data.sequence <= this.lastDrawingSequence) return;
+      this.lastDrawingSequence = data.sequence;
+    }
 
-    this.lastX = Math.max(0, Math.min(this.canvas.width, (event.clientX - rect.left) * scaleX));
-    this.lastY = Math.max(0, Math.min(this.canvas.height, (event.clientY - rect.top) * scaleY));
+    switch (data.action) {
+      case 'stroke':
+      case 'erase':
+        if (data.strokeId && data.points) {
+          this.board.addPoints(data.strokeId, data.action === 'erase' ? 'eraser' : 'brush', data.color, data.lineWidth,
+            data.points, data.pressures, !!data.isFinal);
+        }
+        break;
+      case 'fill':
+        if (data.strokeId) {
+          this.board.fill(data.strokeId, data.x, data.y, data.color);
+        }
+        break;
+      case 'shape':
+        if (data.strokeId && data.shape) {
+          this.board.addShape(data.strokeId, {
+            shape: data.shape,
+            filled: !!data.filled,
+            x0: data.prevX,
+            y0: data.prevY,
+            x1: data.x,
+            y1: data.y,
+            color: data.color,
+            lineWidth: data.lineWidth
+          });
+        }
+        break;
+      case 'undo':
+      case 'redo':
+        if (data.strokeId) {
+          this.board.setHidden(data.strokeId, data.action === 'undo');
+        }
+        break;
+      default:
+        // Legacy per-segment message (older clients, reference board pixels): a finished two-point stroke
+        this.board.addPoints(`segment-${++this.legacySegmentCount}`, 'brush', data.color,
+          data.lineWidth / REFERENCE_BOARD_WIDTH,
+          [
+            data.prevX / REFERENCE_BOARD_WIDTH, data.prevY / REFERENCE_BOARD_HEIGHT,
+            data.x / REFERENCE_BOARD_WIDTH, data.y / REFERENCE_BOARD_HEIGHT
+          ], undefined, true);
+        break;
+    }
   }
 
-  // Local handlers can be empty or removed since HostListeners handle the logic
-  onMouseMove(event: MouseEvent): void { }
-  onMouseUp(): void { }
-  onMouseLeave(): void { }
+  @HostListener('window:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent): void {
+    if (!this.isMyTurn || !(event.ctrlKey || event.metaKey)) return;
+
+    // Leave the chat input's own undo alone
+    const target = event.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
 
-  private drawLine(fromX: number, fromY: number, toX: number, toY: number): void {
-    if (!this.ctx) return;
-    this.ctx.beginPath();
-    this.ctx.moveTo(fromX, fromY);
-    this.ctx.lineTo(toX, toY);
-    this.ctx.stroke();
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.undo();
+    } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+      event.preventDefault();
+      this.redo();
+    }
+  }
+
+  get canUndo(): boolean {
+    return !!this.board?.lastVisibleOperationId();
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  undo(): void {
+    if (!this.isMyTurn || !this.board || this.currentStrokeId || this.currentShape) return;
+
+    const strokeId = this.board.lastVisibleOperationId();
+    if (!strokeId) return;
+
+    this.board.setHidden(strokeId, true);
+    this.redoStack.push(strokeId);
+    this.signalrService.undoStroke(this.roomCode, strokeId)
+      .catch(err => console.error('Error undoing stroke:', err));
+  }
+
+  redo(): void {
+    if (!this.isMyTurn || !this.board || this.currentStrokeId || this.currentShape) return;
+
+    const strokeId = this.redoStack.pop();
+    if (!strokeId) return;
+
+    this.board.setHidden(strokeId, false);
+    this.signalrService.redoStroke(this.roomCode, strokeId)
+      .catch(err => console.error('Error redoing stroke:', err));
   }
 
   selectColor(color: string): void {
-    this.selectedColor = color;
+    this.selectedColor = color.toUpperCase();
     if (this.ctx) {
       this.ctx.strokeStyle = color;
     }
   }
 
+  /**
+   * Selected colour with the opacity slider applied: "#RRGGBB" when opaque, else "#RRGGBBAA".
+   */
+  get brushColor(): string {
+    if (this.selectedOpacity >= 100) return this.selectedColor;
+    const alpha = Math.round(Math.max(0, this.selectedOpacity) / 100 * 255);
+    return this.selectedColor + alpha.toString(16).padStart(2, '0').toUpperCase();
+  }
+
+  toggleColorPicker(): void {
+    this.showColorPicker = !this.showColorPicker;
+  }
+
+  private loadRecentColors(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(RECENT_COLORS_KEY) || '[]');
+      return Array.isArray(stored)
+        ? stored.filter(c => typeof c === 'string' && /^#[0-9A-F]{6}$/i.test(c)).slice(0, MAX_RECENT_COLORS)
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Colours from the fixed palette aren't worth a recent slot
+  private rememberColor(color: string): void {
+    color = color.toUpperCase();
+    if (this.colors.includes(color)) return;
+
+    this.recentColors = [color, ...this.recentColors.filter(c => c !== color)].slice(0, MAX_RECENT_COLORS);
+    localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(this.recentColors));
+  }
+
+  selectTool(tool: DrawingTool): void {
+    this.selectedTool = tool;
+  }
+
   selectLineWidth(width: number): void {
     this.selectedLineWidth = width;
     if (this.ctx) {
@@ -403,47 +1368,173 @@ export class GameComponent implements OnInit, AfterViewInit, OnDestroy {
   }
 
   clearCanvasClick(): void {
-    if (this.ctx) {
-      this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-    }
+    this.board?.clear();
+    this.redoStack = [];
     this.signalrService.clearCanvas(this.roomCode).catch(err => console.error('Error clearing canvas:', err));
   }
 
+  get messageTooLong(): boolean {
+    return this.currentMessage.length > this.maxMessageLength;
+  }
+
   async sendMessage(): Promise<void> {
-    if (!this.currentMessage.trim()) return;
-    await this.signalrService.sendMessage(this.roomCode, this.currentMessage);
+    if (!this.currentMessage.trim() || this.messageTooLong || this.chatCooldown > 0) return;
+    // Cleared up front: a ChatCooldown arrives before the send completes and puts the dropped text back
+    this.lastSentMessage = this.currentMessage;
     this.currentMessage = '';
+    try {
+      await this.signalrService.sendMessage(this.roomCode, this.lastSentMessage);
+    } catch (err) {
+      // Never reached the server: keep the text for another try
+      console.error('Error sending message:', err);
+      if (!this.currentMessage) this.currentMessage = this.lastSentMessage;
+      this.showNotice('Your message could not be sent');
+    } finally {
+      this.lastSentMessage = '';
+    }
+  }
+
+  // A System line in the chat that only this player sees
+  private showNotice(message: string): void {
+    this.chatMessages.push({
+      username: 'System',
+      message,
+      timestamp: new Date(),
+      isSystemMessage: true,
+      isCorrectGuess: false
+    });
+    this.scrollToBottom();
   }
 
   async leaveRoom(): Promise<void> {
-    await this.signalrService.disconnect();
+    try {
+      await this.signalrService.leaveRoom(this.roomCode);
+    } catch (err) {
+      console.error('Error leaving room:', err);
+      await this.signalrService.disconnect();
+    }
     this.router.navigate(['/']);
   }
 
+  // Automatic reconnection gave up: start a fresh connection and take our seat back
+  async reconnect(): Promise<void> {
+    this.connectionState = 'reconnecting';
+    try {
+      await this.signalrService.startConnection();
+      await this.signalrService.joinRoom(this.roomCode, this.username);
+    } catch (err) {
+      console.error('Error reconnecting:', err);
+      this.connectionState = 'disconnected';
+    }
+  }
+
   async nextRound(): Promise<void> {
     await this.signalrService.nextRound(this.roomCode);
   }
 
+  private showFinalResults(players: Player[]): void {
+    this.finalStandings = players.filter(p => !p.isSpectator).sort((a, b) => b.score - a.score);
+    this.podium = [1, 0, 2]
+      .filter(i => i < this.finalStandings.length)
+      .map(i => ({ place: i + 1, player: this.finalStandings[i] }));
+  }
+
   getPlayersSorted(): Player[] {
-    return [...this.players].sort((a, b) => b.score - a.score);
+    return this.players.filter(p => !p.isSpectator).sort((a, b) => b.score - a.score);
   }
 
-  private startTimer(): void {
-    this.timeRemaining = 80;
+  /**
+   * Render the round countdown from the server's deadline. The server ends
+   * the round itself, so nothing is sent when it reaches zero.
+   */
+  private startTimer(roundEndsAt: number, serverTime: number): void {
+    this.syncClock(serverTime);
     if (this.timerInterval) clearInterval(this.timerInterval);
-    this.timerInterval = setInterval(() => {
-      this.timeRemaining--;
-      this.cdr.markForCheck();  // ✅ Update timer display every second
+
+    const tick = () => {
+      this.timeRemaining = this.secondsUntil(roundEndsAt);
+      this.cdr.markForCheck();  // ✅ Update timer display
       if (this.timeRemaining <= 0) {
         clearInterval(this.timerInterval);
         this.timerInterval = null;
-        // ✅ Only the drawer ends the round to avoid duplicate calls
-        if (this.isMyTurn) {
-          this.signalrService.endRound(this.roomCode)
-            .catch(err => console.error('Error ending round:', err));
-        }
       }
-    }, 1000);
+    };
+    tick();
+    this.timerInterval = setInterval(tick, 250);
+  }
+
+  private startChatCooldown(cooldownEndsAt: number, serverTime: number): void {
+    this.syncClock(serverTime);
+    if (this.chatCooldownInterval) clearInterval(this.chatCooldownInterval);
+
+    const tick = () => {
+      this.chatCooldown = this.secondsUntil(cooldownEndsAt);
+      this.cdr.markForCheck();
+      if (this.chatCooldown <= 0) {
+        clearInterval(this.chatCooldownInterval);
+        this.chatCooldownInterval = null;
+      }
+    };
+    tick();
+    this.chatCooldownInterval = setInterval(tick, 250);
+  }
+
+  // Points gained this turn and the running total, as far as the count-up has got
+  shownRoundPoints(player: Player): number {
+    return Math.round((player.roundPoints ?? 0) * this.countUpProgress);
+  }
+
+  shownScore(player: Player): number {
+    return player.score - (player.roundPoints ?? 0) + this.shownRoundPoints(player);
+  }
+
+  private startCountUp(): void {
+    if (this.countUpInterval) clearInterval(this.countUpInterval);
+    const startedAt = Date.now();
+
+    const tick = () => {
+      this.ngZone.run(() => {
+        const t = Math.min(1, (Date.now() - startedAt) / COUNT_UP_DURATION);
+        this.countUpProgress = 1 - Math.pow(1 - t, 3);  // Ease out
+        this.cdr.detectChanges();
+        if (t >= 1) {
+          clearInterval(this.countUpInterval);
+          this.countUpInterval = null;
+        }
+      });
+    };
+    tick();
+    this.countUpInterval = setInterval(tick, 30);
+  }
+
+  private startNextRoundCountdown(nextRoundAt: number, serverTime: number): void {
+    this.syncClock(serverTime);
+    if (this.nextRoundInterval) clearInterval(this.nextRoundInterval);
+
+    const tick = () => {
+      this.ngZone.run(() => {
+        this.nextRoundCountdown = this.secondsUntil(nextRoundAt);
+        this.cdr.detectChanges();
+        if (this.nextRoundCountdown <= 0) {
+          clearInterval(this.nextRoundInterval);
+          this.nextRoundInterval = null;
+        }
+      });
+    };
+    tick();
+    this.nextRoundInterval = setInterval(tick, 250);
+  }
+
+  // Compensate for the local clock being off from the server's
+  private syncClock(serverTime: number): void {
+    if (serverTime) {
+      this.clockOffset = serverTime - Date.now();
+    }
+  }
+
+  private secondsUntil(deadline: number): number {
+    if (!deadline) return 0;
+    return Math.max(0, Math.ceil((deadline - (Date.now() + this.clockOffset)) / 1000));
   }
 
   private scrollToBottom(): void {
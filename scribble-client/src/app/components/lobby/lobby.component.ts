@@ -1,8 +1,12 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { SignalrService } from '../../services/signalr.service';
+import { SessionService } from '../../services/session.service';
+import { ProtocolError, RoomSummary } from '../../services/hub-protocol';
 import { Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
 
 @Component({
   selector: 'app-lobby',
@@ -11,25 +15,38 @@ import { FormsModule } from '@angular/forms';
   templateUrl: './lobby.component.html',
   styleUrl: './lobby.component.css',
 })
-export class LobbyComponent implements OnInit {
-  username: string = '';
+export class LobbyComponent implements OnInit, OnDestroy {
+  username: string = this.session.getUsername();
   roomCode: string = '';
 
+  // Watch the room without taking a player slot
+  joinAsSpectator: boolean = false;
+
   // Loading states
   isCreating: boolean = false;
   isJoining: boolean = false;
+  isQuickPlaying: boolean = false;
   errorMessage: string = '';
   isConnecting: boolean = false;
   connectionStatusMessage: string = 'Connecting to server...';
 
+  // Public rooms, kept up to date by the server while the lobby is open
+  publicRooms: RoomSummary[] = [];
+
+  private destroy$ = new Subject<void>();
+
   constructor(
     private signalrService: SignalrService,
+    private session: SessionService,
     private router: Router,
   ) { }
 
   async ngOnInit(): Promise<void> {
     this.setupSubscriptions();
 
+    // Sent back from a room (kicked, banned or voted out)
+    this.errorMessage = window.history.state?.notice || '';
+
     this.isConnecting = true;
     this.connectionStatusMessage = 'Connecting to server...';
 
@@ -45,43 +62,62 @@ export class LobbyComponent implements OnInit {
       clearTimeout(timeoutMsg);
       this.isConnecting = false;
       console.log('Successfully connected to SignalR');
+      await this.signalrService.watchRooms();
     } catch (error) {
       clearTimeout(timeoutMsg);
       this.isConnecting = false;
-      this.errorMessage =
-        'Failed to connect to game server. Please ensure the backend is running and reachable.';
+      this.errorMessage = error instanceof ProtocolError
+        ? error.message
+        : 'Failed to connect to game server. Please ensure the backend is running and reachable.';
       console.error('Lobby connection error:', error);
     }
   }
 
+  ngOnDestroy(): void {
+    this.signalrService.unwatchRooms().catch(err => console.error('Error leaving the room list:', err));
+
+    // The game page handles these events once we've left the lobby
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
   private setupSubscriptions(): void {
     // After room is created
-    this.signalrService.roomCreated$.subscribe((data) => {
+    this.signalrService.roomCreated$.pipe(takeUntil(this.destroy$)).subscribe((data) => {
       console.log('Room created:', data);
-      localStorage.setItem('roomCode', data.roomCode);
-      localStorage.setItem('username', this.username);
+      this.session.setUsername(this.username);
       this.isCreating = false;
+      this.isQuickPlaying = false;
       // Navigate to game
-      this.router.navigate(['/game']);
+      this.router.navigate(['/game', data.roomCode]);
     });
 
     // After player joins
-    this.signalrService.playerJoined$.subscribe((data) => {
+    this.signalrService.playerJoined$.pipe(takeUntil(this.destroy$)).subscribe((data) => {
       console.log('Player joined:', data);
-      localStorage.setItem('roomCode', this.roomCode);
-      localStorage.setItem('username', this.username);
+      this.session.setUsername(this.username);
       this.isJoining = false;
+      this.isQuickPlaying = false;
       // Navigate to game
-      this.router.navigate(['/game']);
+      this.router.navigate(['/game', data.roomCode]);
     });
 
     // Handle errors
-    this.signalrService.error$.subscribe((error) => {
+    this.signalrService.error$.pipe(takeUntil(this.destroy$)).subscribe((error) => {
       console.error('SignalR error:', error);
       this.errorMessage = error;
       this.isCreating = false;
       this.isJoining = false;
+      this.isQuickPlaying = false;
     });
+
+    this.signalrService.publicRooms$.pipe(takeUntil(this.destroy$)).subscribe((rooms) => {
+      this.publicRooms = rooms;
+    });
+  }
+
+  get isBusy(): boolean {
+    return this.isCreating || this.isJoining || this.isQuickPlaying;
   }
 
   async createRoom(): Promise<void> {
@@ -121,11 +157,48 @@ export class LobbyComponent implements OnInit {
     this.isJoining = true;
 
     try {
-      await this.signalrService.joinRoom(this.roomCode.toUpperCase(), this.username);
+      await this.signalrService.joinRoom(this.roomCode.toUpperCase(), this.username, this.joinAsSpectator);
       // Navigation will happen via playerJoined$ subscription
     } catch (error) {
       this.errorMessage = 'Failed to join room';
       this.isJoining = false;
     }
   }
+
+  /**
+   * Drop into the fullest open public room, or start a new public one
+   */
+  async quickPlay(): Promise<void> {
+    if (!this.username.trim()) {
+      this.errorMessage = 'Please enter a username';
+      return;
+    }
+
+    this.errorMessage = '';
+    this.isQuickPlaying = true;
+
+    try {
+      await this.signalrService.quickPlay(this.username);
+      // Navigation will happen via roomCreated$ or playerJoined$
+    } catch (error) {
+      this.errorMessage = 'Failed to find a game';
+      this.isQuickPlaying = false;
+    }
+  }
+
+  async joinPublicRoom(room: RoomSummary): Promise<void> {
+    this.roomCode = room.roomCode;
+    await this.joinRoom();
+  }
+
+  describeRoom(room: RoomSummary): string {
+    switch (room.state) {
+      case 'Waiting':
+        return 'Waiting to start';
+      case 'GameEnd':
+        return 'Game over';
+      default:
+        return `Round ${room.roundNumber} / ${room.totalRounds}`;
+    }
+  }
 }
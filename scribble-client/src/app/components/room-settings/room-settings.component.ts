@@ -0,0 +1,45 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RoomSettings, WordPack } from '../../services/hub-protocol';
+
+// Choices offered in the panel; the server validates whatever is sent
+const DRAW_TIMES = [30, 45, 60, 80, 100, 120, 150, 180, 240];
+const ROUND_COUNTS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const PLAYER_LIMITS = [2, 3, 4, 5, 6, 7, 8, 10, 12, 16];
+const HINT_COUNTS = [0, 1, 2, 3, 4, 5];
+const TEAM_COUNTS = [0, 2, 3, 4];  // 0 = no teams
+const MIN_CUSTOM_WORDS_ONLY = 3;
+
+@Component({
+  selector: 'app-room-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './room-settings.component.html',
+  styleUrl: './room-settings.component.css',
+})
+export class RoomSettingsComponent implements OnChanges {
+  @Input() settings: RoomSettings | null = null;
+  @Input() editable: boolean = false;  // Only the host can change settings
+  @Input() wordPacks: WordPack[] = [];
+  @Output() settingsChange = new EventEmitter<RoomSettings>();
+
+  readonly drawTimes = DRAW_TIMES;
+  readonly roundCounts = ROUND_COUNTS;
+  readonly playerLimits = PLAYER_LIMITS;
+  readonly hintCounts = HINT_COUNTS;
+  readonly teamCounts = TEAM_COUNTS;
+  readonly minCustomWordsOnly = MIN_CUSTOM_WORDS_ONLY;
+
+  draft: RoomSettings | null = null;
+
+  ngOnChanges(): void {
+    // Edit a copy; the room only changes once the server accepts it
+    this.draft = this.settings ? { ...this.settings } : null;
+  }
+
+  onChange(): void {
+    if (!this.editable || !this.draft) return;
+    this.settingsChange.emit({ ...this.draft });
+  }
+}
@@ -0,0 +1,508 @@
+import {
+  Validator, ProtocolError, str, num, bool, date, oneOf, arrayOf, optional, obj
+} from './protocol-validation';
+
+export { ProtocolError };
+
+/**
+ * The hub protocol: every server-to-client event and client-to-server method,
+ * with runtime checks for what the server sends. Bump PROTOCOL_VERSION (here
+ * and in GameHub) whenever a payload or method signature changes.
+ */
+export const PROTOCOL_VERSION = 9;
+
+// Shared models
+// Positions are 0..1 of the board and line widths a fraction of its width,
+// except legacy "draw" segments in 1200x600 board pixels
+export interface DrawingData {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  color: string;   // "#RRGGBB" or "#RRGGBBAA" (with alpha)
+  lineWidth: number;
+  action: string;  // "draw", "stroke", "erase", "fill", "shape", "undo", "redo" or "clear"
+  strokeId?: string;   // Operation id ("stroke", "erase", "fill", "shape"), or the one to undo/redo
+  points?: number[];   // Batched points (0..1 of the board), flattened as [x0, y0, x1, y1, ...]
+  pressures?: number[]; // Pen pressure per point (0..1), when the drawer uses a stylus
+  isFinal?: boolean;   // Last chunk of the stroke
+  shape?: 'line' | 'rect' | 'ellipse';  // Shape kind, from (prevX, prevY) to (x, y)
+  filled?: boolean;    // Filled rectangle/ellipse instead of an outline
+  sequence?: number;   // Position in the room's drawing log (set by the server)
+}
+
+export interface ChatMessage {
+  username: string;
+  message: string;
+  timestamp: Date;
+  isSystemMessage: boolean;
+  isCorrectGuess: boolean;
+  isCloseGuess?: boolean;  // Private "you're close" notice
+  channel?: ChatChannel;
+}
+
+// 'guessed' messages only reach the drawer and players who already guessed the word
+export type ChatChannel = 'all' | 'guessed';
+
+export interface Player {
+  connectionId: string;
+  username: string;
+  score: number;
+  roundPoints?: number;   // Points earned this turn, for the round breakdown
+  isDrawing: boolean;
+  hasGuessedCorrectly: boolean;
+  isHost: boolean;
+  isConnected?: boolean;  // False while the player's seat is held for them to reconnect
+  isSpectator?: boolean;  // Watches without drawing, guessing or scoring
+  team?: number;          // Team number from 0, only in team mode
+  hasDrawnThisRound?: boolean;
+  // Game stats for the final results
+  wordsGuessed?: number;
+  fastestGuessSeconds?: number | null;
+  turnsDrawn?: number;
+  drawingsGuessed?: number;
+}
+
+// A built-in word pack ('mixed' plays all of them)
+export interface WordPack {
+  id: string;
+  name: string;
+}
+
+// Room options the host picks before the game starts
+export interface RoomSettings {
+  drawTimeSeconds: number;
+  rounds: number;
+  maxPlayers: number;
+  hintCount: number;
+  wordDifficulty: string;    // A word pack id or 'mixed'
+  customWordsOnly: boolean;
+  isPublic: boolean;
+  teamCount: number;         // 0 when everyone plays for themselves
+  customWordCount: number;   // Set by the server; only the host gets the words themselves
+}
+
+// A team's total in team mode; empty lists mean teams are off
+export interface TeamStanding {
+  team: number;
+  score: number;
+}
+
+export type RoomState = 'Waiting' | 'ChoosingWord' | 'Drawing' | 'RoundEnd' | 'GameEnd';
+
+// A public room as listed in the lobby
+export interface RoomSummary {
+  roomCode: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  roundNumber: number;
+  totalRounds: number;
+  state: RoomState;
+}
+
+// Deadlines and serverTime are Unix milliseconds on the server's clock
+
+export interface RoomCreatedEvent {
+  roomCode: string;
+  players: Player[];
+  sessionToken: string;  // Keep it to reclaim this seat after a refresh or dropped connection
+  settings: RoomSettings;
+}
+
+// Full room state, sent to a player who (re)joins
+export interface PlayerJoinedEvent {
+  roomCode: string;
+  players: Player[];
+  newPlayer: Player;
+  sessionToken: string;
+  chatHistory: ChatMessage[];
+  gameStarted: boolean;
+  currentDrawer?: string;
+  maskedWord: string;
+  roundEnded: boolean;
+  choosingWord: boolean;
+  wordChoices?: string[];  // Only for a drawer who is still choosing
+  currentWord?: string;    // Only for the drawer, once the word is picked
+  choiceEndsAt: number;
+  roundNumber: number;
+  totalRounds: number;
+  gameEnded: boolean;
+  settings: RoomSettings;
+  teams: TeamStanding[];
+  wordPacks: WordPack[];
+  customWords?: string[];  // Host only
+  roundDuration: number;
+  maxMessageLength: number;  // Longest chat message the server accepts
+  roundEndsAt: number;
+  nextRoundAt: number;
+  serverTime: number;
+  drawingLog: DrawingData[];
+  drawingSequence: number;
+}
+
+export interface PlayerLeftEvent {
+  players: Player[];
+  leftPlayer: Player;
+}
+
+// The drawer's private list of words to pick from
+export interface WordChoicesEvent {
+  words: string[];
+  roundNumber: number;
+  totalRounds: number;
+  choiceEndsAt: number;
+  serverTime: number;
+}
+
+export interface DrawerChoosingWordEvent {
+  drawer: string;
+  roundNumber: number;
+  totalRounds: number;
+  choiceEndsAt: number;
+  serverTime: number;
+}
+
+// Sent to the drawer once the word is picked
+export interface YourTurnToDrawEvent {
+  word: string;
+  roundDuration: number;
+  roundNumber: number;
+  totalRounds: number;
+  roundEndsAt: number;
+  serverTime: number;
+}
+
+// Sent to everyone else once the word is picked
+export interface RoundStartedEvent {
+  drawer: string;
+  wordLength: number;
+  maskedWord: string;
+  roundDuration: number;
+  roundNumber: number;
+  totalRounds: number;
+  roundEndsAt: number;
+  serverTime: number;
+}
+
+export interface HintRevealedEvent {
+  maskedWord: string;
+}
+
+export interface CorrectGuessEvent {
+  username: string;
+  score: number;
+}
+
+export interface RoundEndedEvent {
+  word: string;
+  players: Player[];
+  teams: TeamStanding[];
+  isLastTurn: boolean;
+  nextRoundAt: number;
+  serverTime: number;
+}
+
+export interface CustomWordsUpdatedEvent {
+  words: string[];
+  rejected: string[];  // Entries the server threw out
+}
+
+export interface GameEndedEvent {
+  players: Player[];  // Final standings, best first
+  teams: TeamStanding[];
+}
+
+export interface GameResetEvent {
+  players: Player[];
+  teams: TeamStanding[];
+}
+
+// The drawing log was wiped; sequence is the clear's own place in it
+export interface CanvasClearedEvent {
+  sequence: number;
+}
+
+// Sent instead of relaying a message while the sender is rate limited
+export interface ChatCooldownEvent {
+  cooldownEndsAt: number;
+  serverTime: number;
+}
+
+// Sent to a player the host kicked or banned, or the room voted out
+export interface KickedEvent {
+  reason: string;
+}
+
+// Server-to-client events and their payloads
+export interface ServerEvents {
+  RoomCreated: RoomCreatedEvent;
+  PlayerJoined: PlayerJoinedEvent;
+  PlayerLeft: PlayerLeftEvent;
+  PlayersUpdated: Player[];
+  ReceiveDrawing: DrawingData;
+  ReceiveMessage: ChatMessage;
+  WordChoices: WordChoicesEvent;
+  DrawerChoosingWord: DrawerChoosingWordEvent;
+  RoundStarted: RoundStartedEvent;
+  HintRevealed: HintRevealedEvent;
+  YourTurnToDraw: YourTurnToDrawEvent;
+  CorrectGuess: CorrectGuessEvent;
+  RoundEnded: RoundEndedEvent;
+  SettingsUpdated: RoomSettings;
+  CustomWordsUpdated: CustomWordsUpdatedEvent;
+  GameEnded: GameEndedEvent;
+  GameReset: GameResetEvent;
+  TeamsUpdated: TeamStanding[];
+  ClearCanvas: CanvasClearedEvent;
+  UndoStroke: DrawingData;
+  RedoStroke: DrawingData;
+  PublicRooms: RoomSummary[];
+  Kicked: KickedEvent;
+  ChatCooldown: ChatCooldownEvent;
+  Error: string;
+}
+
+export type ServerEventName = keyof ServerEvents;
+
+// Client-to-server hub methods, their arguments and what they return
+export interface HubMethods {
+  Handshake: { args: [clientVersion: number]; result: number };
+  CreateRoom: { args: [username: string]; result: void };
+  QuickPlay: { args: [username: string]; result: void };
+  WatchRooms: { args: []; result: void };
+  UnwatchRooms: { args: []; result: void };
+  JoinRoom: { args: [roomCode: string, username: string, sessionToken: string | null, asSpectator: boolean]; result: void };
+  SetSpectating: { args: [roomCode: string, spectate: boolean]; result: void };
+  ShuffleTeams: { args: [roomCode: string]; result: void };
+  AssignTeam: { args: [roomCode: string, connectionId: string, team: number]; result: void };
+  LeaveRoom: { args: [roomCode: string]; result: void };
+  KickPlayer: { args: [roomCode: string, connectionId: string, ban: boolean]; result: void };
+  VoteKick: { args: [roomCode: string, connectionId: string]; result: void };
+  StartRound: { args: [roomCode: string]; result: void };
+  UpdateSettings: { args: [roomCode: string, settings: RoomSettings]; result: void };
+  SetCustomWords: { args: [roomCode: string, words: string[]]; result: void };
+  ChooseWord: { args: [roomCode: string, word: string]; result: void };
+  SendDrawing: { args: [roomCode: string, data: DrawingData]; result: void };
+  SendMessage: { args: [roomCode: string, message: string]; result: void };
+  EndRound: { args: [roomCode: string]; result: void };
+  NextRound: { args: [roomCode: string]; result: void };
+  PlayAgain: { args: [roomCode: string]; result: void };
+  ClearCanvas: { args: [roomCode: string]; result: void };
+  UndoStroke: { args: [roomCode: string, strokeId: string]; result: void };
+  RedoStroke: { args: [roomCode: string, strokeId: string]; result: void };
+}
+
+export type HubMethodName = keyof HubMethods;
+
+// Runtime schemas
+
+const drawingData = obj<DrawingData>({
+  x: num(),
+  y: num(),
+  prevX: num(),
+  prevY: num(),
+  color: str(),
+  lineWidth: num(),
+  action: str(),
+  strokeId: optional(str()),
+  points: optional(arrayOf(num())),
+  pressures: optional(arrayOf(num())),
+  isFinal: optional(bool()),
+  shape: optional(oneOf('line', 'rect', 'ellipse')),
+  filled: optional(bool()),
+  sequence: optional(num())
+});
+
+const chatMessage = obj<ChatMessage>({
+  username: str(),
+  message: str(),
+  timestamp: date(),
+  isSystemMessage: bool(),
+  isCorrectGuess: bool(),
+  isCloseGuess: optional(bool()),
+  channel: optional(oneOf<ChatChannel>('all', 'guessed'))
+});
+
+const player = obj<Player>({
+  connectionId: str(),
+  username: str(),
+  score: num(),
+  roundPoints: optional(num()),
+  isDrawing: bool(),
+  hasGuessedCorrectly: bool(),
+  isHost: bool(),
+  isConnected: optional(bool()),
+  isSpectator: optional(bool()),
+  team: optional(num()),
+  hasDrawnThisRound: optional(bool()),
+  wordsGuessed: optional(num()),
+  fastestGuessSeconds: optional(num()),
+  turnsDrawn: optional(num()),
+  drawingsGuessed: optional(num())
+});
+
+const players = arrayOf(player);
+
+const wordPack = obj<WordPack>({
+  id: str(),
+  name: str()
+});
+
+const roomSettings = obj<RoomSettings>({
+  drawTimeSeconds: num(),
+  rounds: num(),
+  maxPlayers: num(),
+  hintCount: num(),
+  wordDifficulty: str(),
+  customWordsOnly: bool(),
+  isPublic: bool(),
+  teamCount: num(),
+  customWordCount: num()
+});
+
+const teams = arrayOf(obj<TeamStanding>({
+  team: num(),
+  score: num()
+}));
+
+const words = arrayOf(str());
+
+const roomSummary = obj<RoomSummary>({
+  roomCode: str(),
+  hostName: str(),
+  playerCount: num(),
+  maxPlayers: num(),
+  roundNumber: num(),
+  totalRounds: num(),
+  state: oneOf<RoomState>('Waiting', 'ChoosingWord', 'Drawing', 'RoundEnd', 'GameEnd')
+});
+
+const serverEvents: { [E in ServerEventName]: Validator<ServerEvents[E]> } = {
+  RoomCreated: obj<RoomCreatedEvent>({
+    roomCode: str(),
+    players,
+    sessionToken: str(),
+    settings: roomSettings
+  }),
+  PlayerJoined: obj<PlayerJoinedEvent>({
+    roomCode: str(),
+    players,
+    newPlayer: player,
+    sessionToken: str(),
+    chatHistory: arrayOf(chatMessage),
+    gameStarted: bool(),
+    currentDrawer: optional(str()),
+    maskedWord: str(),
+    roundEnded: bool(),
+    choosingWord: bool(),
+    wordChoices: optional(words),
+    currentWord: optional(str()),
+    choiceEndsAt: num(),
+    roundNumber: num(),
+    totalRounds: num(),
+    gameEnded: bool(),
+    settings: roomSettings,
+    teams,
+    wordPacks: arrayOf(wordPack),
+    customWords: optional(words),
+    roundDuration: num(),
+    maxMessageLength: num(),
+    roundEndsAt: num(),
+    nextRoundAt: num(),
+    serverTime: num(),
+    drawingLog: arrayOf(drawingData),
+    drawingSequence: num()
+  }),
+  PlayerLeft: obj<PlayerLeftEvent>({
+    players,
+    leftPlayer: player
+  }),
+  PlayersUpdated: players,
+  ReceiveDrawing: drawingData,
+  ReceiveMessage: chatMessage,
+  WordChoices: obj<WordChoicesEvent>({
+    words,
+    roundNumber: num(),
+    totalRounds: num(),
+    choiceEndsAt: num(),
+    serverTime: num()
+  }),
+  DrawerChoosingWord: obj<DrawerChoosingWordEvent>({
+    drawer: str(),
+    roundNumber: num(),
+    totalRounds: num(),
+    choiceEndsAt: num(),
+    serverTime: num()
+  }),
+  RoundStarted: obj<RoundStartedEvent>({
+    drawer: str(),
+    wordLength: num(),
+    maskedWord: str(),
+    roundDuration: num(),
+    roundNumber: num(),
+    totalRounds: num(),
+    roundEndsAt: num(),
+    serverTime: num()
+  }),
+  HintRevealed: obj<HintRevealedEvent>({
+    maskedWord: str()
+  }),
+  YourTurnToDraw: obj<YourTurnToDrawEvent>({
+    word: str(),
+    roundDuration: num(),
+    roundNumber: num(),
+    totalRounds: num(),
+    roundEndsAt: num(),
+    serverTime: num()
+  }),
+  CorrectGuess: obj<CorrectGuessEvent>({
+    username: str(),
+    score: num()
+  }),
+  RoundEnded: obj<RoundEndedEvent>({
+    word: str(),
+    players,
+    teams,
+    isLastTurn: bool(),
+    nextRoundAt: num(),
+    serverTime: num()
+  }),
+  SettingsUpdated: roomSettings,
+  CustomWordsUpdated: obj<CustomWordsUpdatedEvent>({
+    words,
+    rejected: words
+  }),
+  GameEnded: obj<GameEndedEvent>({ players, teams }),
+  GameReset: obj<GameResetEvent>({ players, teams }),
+  TeamsUpdated: teams,
+  ClearCanvas: obj<CanvasClearedEvent>({ sequence: num() }),
+  UndoStroke: drawingData,
+  RedoStroke: drawingData,
+  PublicRooms: arrayOf(roomSummary),
+  Kicked: obj<KickedEvent>({ reason: str() }),
+  ChatCooldown: obj<ChatCooldownEvent>({
+    cooldownEndsAt: num(),
+    serverTime: num()
+  }),
+  Error: str()
+};
+
+/** Checks an incoming payload, throwing a ProtocolError that names the event and field. */
+export function parseServerEvent<E extends ServerEventName>(event: E, payload: unknown): ServerEvents[E] {
+  try {
+    return serverEvents[event](payload, '');
+  } catch (err) {
+    if (err instanceof ProtocolError) {
+      throw new ProtocolError(`Invalid "${event}" payload: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+export function checkProtocolVersion(serverVersion: unknown): void {
+  if (serverVersion !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      `This page speaks protocol v${PROTOCOL_VERSION} but the game server speaks v${serverVersion}. Please refresh the page.`);
+  }
+}
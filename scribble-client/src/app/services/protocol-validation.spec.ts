@@ -0,0 +1,65 @@
+import { ProtocolError, arrayOf, bool, date, num, obj, oneOf, optional, str } from './protocol-validation';
+
+interface Sample {
+  name: string;
+  score?: number;
+}
+
+const sample = obj<Sample>({
+  name: str(),
+  score: optional(num())
+});
+
+describe('protocol validators', () => {
+  it('pass values of the right type through', () => {
+    expect(str()('hi', 'x')).toBe('hi');
+    expect(num()(3.5, 'x')).toBe(3.5);
+    expect(bool()(false, 'x')).toBeFalse();
+    expect(oneOf('a', 'b')('b', 'x')).toBe('b');
+  });
+
+  it('reject values of the wrong type, naming the path', () => {
+    expect(() => str()(1, 'player.name')).toThrowError(ProtocolError, 'player.name: expected string, got number');
+    expect(() => bool()(null, 'flag')).toThrowError(ProtocolError, 'flag: expected boolean, got null');
+    expect(() => oneOf('a', 'b')('c', 'kind')).toThrowError(ProtocolError, /kind: expected 'a' \| 'b'/);
+  });
+
+  it('reject numbers that are not finite', () => {
+    expect(() => num()(NaN, 'x')).toThrowError(ProtocolError);
+    expect(() => num()(Infinity, 'x')).toThrowError(ProtocolError);
+    expect(() => num()('1', 'x')).toThrowError(ProtocolError);
+  });
+
+  it('parse ISO dates and reject anything else', () => {
+    expect(date()('2024-01-02T03:04:05Z', 'at').toISOString()).toBe('2024-01-02T03:04:05.000Z');
+    expect(() => date()('yesterday', 'at')).toThrowError(ProtocolError);
+    expect(() => date()(0, 'at')).toThrowError(ProtocolError);
+  });
+
+  it('read missing and null optional values as undefined', () => {
+    expect(optional(num())(undefined, 'x')).toBeUndefined();
+    expect(optional(num())(null, 'x')).toBeUndefined();
+    expect(() => optional(num())('1', 'x')).toThrowError(ProtocolError);
+  });
+
+  it('check every array item, naming its index', () => {
+    expect(arrayOf(num())([1, 2], 'xs')).toEqual([1, 2]);
+    expect(() => arrayOf(num())([1, 'two'], 'xs')).toThrowError(ProtocolError, /^xs\[1\]:/);
+    expect(() => arrayOf(num())({}, 'xs')).toThrowError(ProtocolError, 'xs: expected array, got object');
+  });
+
+  it('copy only known object fields and leave out empty optional ones', () => {
+    const parsed = sample({ name: 'ann', score: null, extra: true }, '');
+
+    expect(parsed).toEqual({ name: 'ann' });
+    expect('score' in parsed).toBeFalse();
+  });
+
+  it('name nested fields from the top of the payload', () => {
+    const players = obj<{ players: Sample[] }>({ players: arrayOf(sample) });
+
+    expect(() => players({ players: [{ name: 'ann' }, { name: 7 }] }, ''))
+      .toThrowError(ProtocolError, 'players[1].name: expected string, got number');
+    expect(() => sample([], '')).toThrowError(ProtocolError, 'payload: expected object, got array');
+  });
+});
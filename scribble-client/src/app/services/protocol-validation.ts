@@ -0,0 +1,64 @@
+/**
+ * Small runtime checks for hub payloads. Each validator returns a clean copy
+ * of the value (nulls on optional fields become undefined, unknown fields are
+ * dropped) or throws a ProtocolError naming the offending path.
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new ProtocolError(`${path || 'payload'}: expected ${expected}, got ${describe(value)}`);
+}
+
+export const str = (): Validator<string> => (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+export const num = (): Validator<number> => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number', value);
+
+export const bool = (): Validator<boolean> => (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+// ISO timestamps from the server
+export const date = (): Validator<Date> => (value, path) => {
+  const parsed = typeof value === 'string' ? new Date(value) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed : fail(path, 'ISO date string', value);
+};
+
+export const oneOf = <T extends string>(...options: T[]): Validator<T> => (value, path) =>
+  options.includes(value as T) ? value as T : fail(path, options.map(o => `'${o}'`).join(' | '), value);
+
+export const arrayOf = <T>(item: Validator<T>): Validator<T[]> => (value, path) =>
+  Array.isArray(value) ? value.map((v, i) => item(v, `${path}[${i}]`)) : fail(path, 'array', value);
+
+// Missing or null both read as undefined
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : inner(value, path);
+
+export const obj = <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(path, 'object', value);
+  }
+
+  const source = value as Record<string, unknown>;
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const field = shape[key](source[key], path ? `${path}.${key}` : key);
+    if (field !== undefined) {
+      result[key] = field;
+    }
+  }
+  return result;
+};
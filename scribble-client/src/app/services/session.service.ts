@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+
+const USERNAME_KEY = 'username';
+const SESSION_TOKEN_PREFIX = 'sessionToken:';
+
+/**
+ * Who this tab plays as. Each tab keeps its own name in sessionStorage (so two
+ * tabs can play side by side and survive a refresh); the last name used is
+ * remembered in localStorage as the default for new tabs and invite links.
+ * The per-room session token the server hands out stays with the tab, so a
+ * refresh or dropped connection reclaims the same seat.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  getUsername(): string {
+    return sessionStorage.getItem(USERNAME_KEY) || localStorage.getItem(USERNAME_KEY) || '';
+  }
+
+  setUsername(username: string): void {
+    sessionStorage.setItem(USERNAME_KEY, username);
+    localStorage.setItem(USERNAME_KEY, username);
+  }
+
+  getSessionToken(roomCode: string): string | null {
+    return sessionStorage.getItem(SESSION_TOKEN_PREFIX + roomCode.toUpperCase());
+  }
+
+  setSessionToken(roomCode: string, token: string): void {
+    sessionStorage.setItem(SESSION_TOKEN_PREFIX + roomCode.toUpperCase(), token);
+  }
+}
@@ -1,35 +1,18 @@
 import { Injectable } from '@angular/core';
 import * as signalR from '@microsoft/signalr';
-import { Subject } from 'rxjs';
+import { BehaviorSubject, Subject } from 'rxjs';
 import { environment } from '../../environments/environment';
-
-// Define interfaces for type safety
-export interface DrawingData {
-  x: number;
-  y: number;
-  prevX: number;
-  prevY: number;
-  color: string;
-  lineWidth: number;
-  action: string;  // "draw" or "clear"
-}
-
-export interface ChatMessage {
-  username: string;
-  message: string;
-  timestamp: Date;
-  isSystemMessage: boolean;
-  isCorrectGuess: boolean;
-}
-
-export interface Player {
-  connectionId: string;
-  username: string;
-  score: number;
-  isDrawing: boolean;
-  hasGuessedCorrectly: boolean;
-  isHost: boolean;
-}
+import { SessionService } from './session.service';
+import {
+  PROTOCOL_VERSION, ProtocolError, ServerEvents, ServerEventName, HubMethods, HubMethodName, parseServerEvent,
+  checkProtocolVersion, DrawingData, ChatMessage, Player, RoomSettings, RoomCreatedEvent, PlayerJoinedEvent,
+  PlayerLeftEvent, WordChoicesEvent, DrawerChoosingWordEvent, RoundStartedEvent, HintRevealedEvent,
+  YourTurnToDrawEvent, CorrectGuessEvent, RoundEndedEvent, CustomWordsUpdatedEvent, GameEndedEvent, GameResetEvent,
+  RoomSummary, KickedEvent, ChatCooldownEvent, TeamStanding, CanvasClearedEvent
+} from './hub-protocol';
+
+// 'disconnected' means automatic reconnection gave up
+export type ConnectionState = 'connected' | 'reconnecting' | 'disconnected';
 
 @Injectable({
   providedIn: 'root'  // Singleton service
@@ -38,22 +21,41 @@ export class SignalrService {
   // SignalR connection instance
   private hubConnection!: signalR.HubConnection;
 
+  // The room this tab is in, joined again whenever the connection comes back
+  private currentRoom: { roomCode: string; username: string } | null = null;
+  private watchingRooms = false;  // The lobby wants the public room list
+
   // Observables for real-time events
   // Think of these as event emitters that components can subscribe to
-  public roomCreated$ = new Subject<any>();
-  public playerJoined$ = new Subject<any>();
-  public playerLeft$ = new Subject<any>();
+  public roomCreated$ = new Subject<RoomCreatedEvent>();
+  public playerJoined$ = new Subject<PlayerJoinedEvent>();
+  public playerLeft$ = new Subject<PlayerLeftEvent>();
   public playersUpdated$ = new Subject<Player[]>();
   public receiveDrawing$ = new Subject<DrawingData>();
   public receiveMessage$ = new Subject<ChatMessage>();
-  public roundStarted$ = new Subject<any>();
-  public yourTurnToDraw$ = new Subject<any>();
-  public correctGuess$ = new Subject<any>();
-  public roundEnded$ = new Subject<any>();
-  public clearCanvas$ = new Subject<void>();
+  public wordChoices$ = new Subject<WordChoicesEvent>();
+  public drawerChoosingWord$ = new Subject<DrawerChoosingWordEvent>();
+  public roundStarted$ = new Subject<RoundStartedEvent>();
+  public hintRevealed$ = new Subject<HintRevealedEvent>();
+  public yourTurnToDraw$ = new Subject<YourTurnToDrawEvent>();
+  public correctGuess$ = new Subject<CorrectGuessEvent>();
+  public roundEnded$ = new Subject<RoundEndedEvent>();
+  public settingsUpdated$ = new Subject<RoomSettings>();
+  public customWordsUpdated$ = new Subject<CustomWordsUpdatedEvent>();
+  public gameEnded$ = new Subject<GameEndedEvent>();
+  public gameReset$ = new Subject<GameResetEvent>();
+  public teamsUpdated$ = new Subject<TeamStanding[]>();
+  public clearCanvas$ = new Subject<CanvasClearedEvent>();
+  public undoStroke$ = new Subject<DrawingData>();
+  public redoStroke$ = new Subject<DrawingData>();
+  public publicRooms$ = new Subject<RoomSummary[]>();
+  public kicked$ = new Subject<KickedEvent>();
+  public chatCooldown$ = new Subject<ChatCooldownEvent>();
   public error$ = new Subject<string>();
+  public protocolError$ = new Subject<string>();  // A payload that didn't match the protocol (and was dropped)
+  public connectionState$ = new BehaviorSubject<ConnectionState>('connected');
 
-  constructor() { }
+  constructor(private session: SessionService) { }
 
   public get isConnected(): boolean {
     return this.hubConnection?.state === signalR.HubConnectionState.Connected;
@@ -80,6 +82,7 @@ export class SignalrService {
 
     // Set up event listeners
     this.setupEventListeners();
+    this.setupReconnection();
 
     try {
       await this.hubConnection.start();
@@ -88,107 +91,243 @@ export class SignalrService {
       console.error('Error connecting to SignalR:', err);
       throw err;
     }
+
+    try {
+      await this.handshake();
+    } catch (err) {
+      await this.hubConnection.stop();
+      throw err;
+    }
+    this.connectionState$.next('connected');
   }
 
+  // Mismatched client and server builds refuse to play rather than misread each other
+  private async handshake(): Promise<void> {
+    let serverVersion: number;
+    try {
+      serverVersion = await this.invoke('Handshake', PROTOCOL_VERSION);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new ProtocolError(`The game server rejected protocol v${PROTOCOL_VERSION} (${reason}). Please refresh the page.`);
+    }
+    checkProtocolVersion(serverVersion);
+  }
 
-  private setupEventListeners(): void {
-    // When server sends "RoomCreated" event
-    this.hubConnection.on('RoomCreated', (data) => {
-      this.roomCreated$.next(data);
-    });
 
-    // When server sends "PlayerJoined" event
-    this.hubConnection.on('PlayerJoined', (data) => {
-      this.playerJoined$.next(data);
+  private setupReconnection(): void {
+    this.hubConnection.onreconnecting(() => {
+      console.warn('SignalR connection lost, reconnecting...');
+      this.connectionState$.next('reconnecting');
     });
 
-    // ... and so on for all events
-    this.hubConnection.on('PlayerLeft', (data) => {
-      this.playerLeft$.next(data);
+    // A reconnect gets a new connection id, so take our seat back with the session token
+    this.hubConnection.onreconnected(async () => {
+      console.log('SignalR reconnected');
+      try {
+        await this.handshake();
+        this.connectionState$.next('connected');
+        if (this.currentRoom) {
+          await this.joinRoom(this.currentRoom.roomCode, this.currentRoom.username);
+        }
+        if (this.watchingRooms) {
+          await this.invoke('WatchRooms');
+        }
+      } catch (err) {
+        console.error('Error rejoining room:', err);
+        if (err instanceof ProtocolError) {
+          this.protocolError$.next(err.message);
+          await this.hubConnection.stop();
+        }
+      }
     });
 
-    this.hubConnection.on('PlayersUpdated', (players) => {
-      this.playersUpdated$.next(players);
+    this.hubConnection.onclose(() => {
+      if (this.currentRoom) {
+        this.connectionState$.next('disconnected');
+      }
     });
+  }
 
-    this.hubConnection.on('ReceiveDrawing', (data) => {
-      this.receiveDrawing$.next(data);
+  private setupEventListeners(): void {
+    this.listen('RoomCreated', (data) => {
+      this.rememberSession(data.roomCode, data.players[0]?.username, data.sessionToken);
+      this.roomCreated$.next(data);
     });
 
-    this.hubConnection.on('ReceiveMessage', (message) => {
-      this.receiveMessage$.next(message);
+    this.listen('PlayerJoined', (data) => {
+      this.rememberSession(data.roomCode, data.newPlayer.username, data.sessionToken);
+      this.playerJoined$.next(data);
     });
 
-    this.hubConnection.on('RoundStarted', (data) => {
-      this.roundStarted$.next(data);
+    this.forward('PlayerLeft', this.playerLeft$);
+    this.forward('PlayersUpdated', this.playersUpdated$);
+    this.forward('ReceiveDrawing', this.receiveDrawing$);
+    this.forward('ReceiveMessage', this.receiveMessage$);
+    this.forward('WordChoices', this.wordChoices$);
+    this.forward('DrawerChoosingWord', this.drawerChoosingWord$);
+    this.forward('RoundStarted', this.roundStarted$);
+    this.forward('HintRevealed', this.hintRevealed$);
+    this.forward('YourTurnToDraw', this.yourTurnToDraw$);
+    this.forward('CorrectGuess', this.correctGuess$);
+    this.forward('RoundEnded', this.roundEnded$);
+    this.forward('SettingsUpdated', this.settingsUpdated$);
+    this.forward('CustomWordsUpdated', this.customWordsUpdated$);
+    this.forward('GameEnded', this.gameEnded$);
+    this.forward('GameReset', this.gameReset$);
+    this.forward('TeamsUpdated', this.teamsUpdated$);
+    this.forward('ClearCanvas', this.clearCanvas$);
+    this.forward('UndoStroke', this.undoStroke$);
+    this.forward('RedoStroke', this.redoStroke$);
+    this.forward('PublicRooms', this.publicRooms$);
+    this.forward('ChatCooldown', this.chatCooldown$);
+
+    // Out of the room for good: don't rejoin it after a reconnect
+    this.listen('Kicked', (data) => {
+      this.currentRoom = null;
+      this.kicked$.next(data);
     });
 
-    this.hubConnection.on('YourTurnToDraw', (data) => {
-      this.yourTurnToDraw$.next(data);
-    });
+    this.forward('Error', this.error$);
+  }
 
-    this.hubConnection.on('CorrectGuess', (data) => {
-      this.correctGuess$.next(data);
+  // Every payload is checked against the protocol; one that doesn't match is reported and dropped
+  private listen<E extends ServerEventName>(event: E, handler: (data: ServerEvents[E]) => void): void {
+    this.hubConnection.on(event, (payload?: unknown) => {
+      let data: ServerEvents[E];
+      try {
+        data = parseServerEvent(event, payload);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[protocol] ${message}`, payload);
+        this.protocolError$.next(message);
+        return;
+      }
+      handler(data);
     });
+  }
 
-    this.hubConnection.on('RoundEnded', (data) => {
-      this.roundEnded$.next(data);
-    });
+  private forward<E extends ServerEventName>(event: E, subject: Subject<ServerEvents[E]>): void {
+    this.listen(event, (data) => subject.next(data));
+  }
 
-    this.hubConnection.on('ClearCanvas', () => {
-      this.clearCanvas$.next();
-    });
+  private invoke<M extends HubMethodName>(method: M, ...args: HubMethods[M]['args']): Promise<HubMethods[M]['result']> {
+    return this.hubConnection.invoke<HubMethods[M]['result']>(method, ...args);
+  }
 
-    this.hubConnection.on('Error', (message) => {
-      this.error$.next(message);
-    });
+  async createRoom(username: string): Promise<void> {
+    await this.invoke('CreateRoom', username);
   }
 
+  async quickPlay(username: string): Promise<void> {
+    await this.invoke('QuickPlay', username);
+  }
 
-  async createRoom(username: string): Promise<void> {
-    await this.hubConnection.invoke('CreateRoom', username);
+  async watchRooms(): Promise<void> {
+    this.watchingRooms = true;
+    await this.invoke('WatchRooms');
+  }
+
+  async unwatchRooms(): Promise<void> {
+    this.watchingRooms = false;
+    if (this.isConnected) {
+      await this.invoke('UnwatchRooms');
+    }
+  }
+
+  // Rejoining with a saved session keeps whatever role the player had, so asSpectator only matters the first time
+  async joinRoom(roomCode: string, username: string, asSpectator: boolean = false): Promise<void> {
+    roomCode = roomCode.toUpperCase();
+    await this.invoke('JoinRoom', roomCode, username, this.session.getSessionToken(roomCode), asSpectator);
+  }
+
+  async shuffleTeams(roomCode: string): Promise<void> {
+    await this.invoke('ShuffleTeams', roomCode.toUpperCase());
   }
 
-  async joinRoom(roomCode: string, username: string): Promise<void> {
-    await this.hubConnection.invoke('JoinRoom', roomCode, username);
+  async assignTeam(roomCode: string, connectionId: string, team: number): Promise<void> {
+    await this.invoke('AssignTeam', roomCode.toUpperCase(), connectionId, team);
+  }
+
+  async setSpectating(roomCode: string, spectate: boolean): Promise<void> {
+    await this.invoke('SetSpectating', roomCode.toUpperCase(), spectate);
+  }
+
+  private rememberSession(roomCode: string, username: string, sessionToken: string): void {
+    if (!roomCode || !username || !sessionToken) return;
+
+    this.currentRoom = { roomCode, username };
+    this.session.setSessionToken(roomCode, sessionToken);
   }
 
   async startGame(roomCode: string): Promise<void> {
-    await this.hubConnection.invoke('StartRound', roomCode.toUpperCase());
+    await this.invoke('StartRound', roomCode.toUpperCase());
+  }
+
+  async updateSettings(roomCode: string, settings: RoomSettings): Promise<void> {
+    await this.invoke('UpdateSettings', roomCode.toUpperCase(), settings);
+  }
+
+  async setCustomWords(roomCode: string, words: string[]): Promise<void> {
+    await this.invoke('SetCustomWords', roomCode.toUpperCase(), words);
+  }
+
+  async chooseWord(roomCode: string, word: string): Promise<void> {
+    await this.invoke('ChooseWord', roomCode.toUpperCase(), word);
   }
 
   async sendDrawing(roomCode: string, data: DrawingData): Promise<void> {
-    await this.hubConnection.invoke('SendDrawing', roomCode.toUpperCase(), data);
+    await this.invoke('SendDrawing', roomCode.toUpperCase(), data);
   }
 
   async sendMessage(roomCode: string, message: string): Promise<void> {
-    await this.hubConnection.invoke('SendMessage', roomCode.toUpperCase(), message);
+    await this.invoke('SendMessage', roomCode.toUpperCase(), message);
   }
 
   async endRound(roomCode: string): Promise<void> {
-    await this.hubConnection.invoke('EndRound', roomCode.toUpperCase());
+    await this.invoke('EndRound', roomCode.toUpperCase());
   }
 
   async nextRound(roomCode: string): Promise<void> {
-    await this.hubConnection.invoke('NextRound', roomCode.toUpperCase());
+    await this.invoke('NextRound', roomCode.toUpperCase());
+  }
+
+  async playAgain(roomCode: string): Promise<void> {
+    await this.invoke('PlayAgain', roomCode.toUpperCase());
   }
 
   async clearCanvas(roomCode: string): Promise<void> {
-    await this.hubConnection.invoke('ClearCanvas', roomCode.toUpperCase());
+    await this.invoke('ClearCanvas', roomCode.toUpperCase());
+  }
+
+  async undoStroke(roomCode: string, strokeId: string): Promise<void> {
+    await this.invoke('UndoStroke', roomCode.toUpperCase(), strokeId);
+  }
+
+  async redoStroke(roomCode: string, strokeId: string): Promise<void> {
+    await this.invoke('RedoStroke', roomCode.toUpperCase(), strokeId);
   }
 
   async leaveRoom(roomCode: string): Promise<void> {
     if (this.hubConnection) {
-      await this.hubConnection.invoke('LeaveRoom', roomCode.toUpperCase());
+      await this.invoke('LeaveRoom', roomCode.toUpperCase());
     }
     await this.disconnect();
   }
 
+  async kickPlayer(roomCode: string, connectionId: string, ban: boolean): Promise<void> {
+    await this.invoke('KickPlayer', roomCode.toUpperCase(), connectionId, ban);
+  }
+
+  async voteKick(roomCode: string, connectionId: string): Promise<void> {
+    await this.invoke('VoteKick', roomCode.toUpperCase(), connectionId);
+  }
+
   async startNextRound(roomCode: string): Promise<void> {
-    await this.hubConnection.invoke('NextRound', roomCode.toUpperCase());
+    await this.invoke('NextRound', roomCode.toUpperCase());
   }
 
   async disconnect(): Promise<void> {
+    this.currentRoom = null;
     if (this.hubConnection) {
       await this.hubConnection.stop();
     }
@@ -1,23 +1,83 @@
 using System;
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.Options;
 using scribble.API.Models;
 using scribble.API.Services;
 
 namespace scribble.API.Hubs;
 
-public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
+public class GameHub(GameManager gameManager, RoundService roundService, PresenceService presenceService,
+    ChatFilter chatFilter, ChatRateLimiter chatRateLimiter, IOptions<ChatOptions> chatOptions, ILogger<GameHub> logger) : Hub
 {
 
     private readonly GameManager _gameManager = gameManager;
+    private readonly RoundService _roundService = roundService;
+    private readonly PresenceService _presenceService = presenceService;
+    private readonly ChatFilter _chatFilter = chatFilter;
+    private readonly ChatRateLimiter _chatRateLimiter = chatRateLimiter;
+    private readonly ChatOptions _chatOptions = chatOptions.Value;
     private readonly ILogger<GameHub> _logger = logger;
 
+    // Upper bound on coordinates in a single batched stroke chunk
+    private const int MaxStrokePoints = 512;
+
+    // Drawing actions clients may send through SendDrawing
+    private static readonly HashSet<string> DrawingActions = new() { "draw", "stroke", "erase", "fill", "shape" };
+
+    private static readonly HashSet<string> ShapeKinds = new() { "line", "rect", "ellipse" };
+
+    // Bump together with PROTOCOL_VERSION in the client's hub-protocol.ts when a payload or method changes
+    public const int ProtocolVersion = 9;
+
+    // First call on every connection: a client built for another protocol version is turned away
+    public int Handshake(int clientVersion)
+    {
+        if (clientVersion != ProtocolVersion)
+        {
+            _logger.LogWarning($"Rejected client speaking protocol v{clientVersion} (server speaks v{ProtocolVersion})");
+            throw new HubException($"Unsupported protocol version {clientVersion}; this server speaks v{ProtocolVersion}");
+        }
+
+        return ProtocolVersion;
+    }
+
     public async Task CreateRoom(string username)
+    {
+        await CreateRoomAsync(username, isPublic: false);
+    }
+
+    // Joins the fullest open public room, or opens a new public one
+    public async Task QuickPlay(string username)
+    {
+        var room = _gameManager.FindQuickPlayRoom(username);
+        if (room != null)
+        {
+            await JoinRoom(room.RoomCode, username, null, false);
+            return;
+        }
+
+        await CreateRoomAsync(username, isPublic: true);
+    }
+
+    // Lobby clients get the public room list now and again whenever it changes
+    public async Task WatchRooms()
+    {
+        await Groups.AddToGroupAsync(Context.ConnectionId, RoomBrowserService.LobbyGroup);
+        await Clients.Caller.SendAsync("PublicRooms", _gameManager.GetPublicRooms());
+    }
+
+    public async Task UnwatchRooms()
+    {
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, RoomBrowserService.LobbyGroup);
+    }
+
+    private async Task CreateRoomAsync(string username, bool isPublic)
     {
         //create room function
         // 1. generate room code
         var roomCode = _gameManager.GenerateRoomCode();
         //2. generate room with room code
-        var room = _gameManager.CreateRoom(roomCode);
+        var room = _gameManager.CreateRoom(roomCode, isPublic);
         //3.add first player as the room host
         var player = _gameManager.AddPlayer(
             roomCode,
@@ -32,14 +92,17 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
             await Clients.Caller.SendAsync("RoomCreated", new
             {
                 roomCode = room.RoomCode,
-                players = room.Players
+                players = room.PlayersSnapshot,
+                sessionToken = player.SessionToken,
+                settings = _gameManager.GetSettings(room.RoomCode)
             });
 
             _logger.LogInformation($"Room {roomCode} created by {username}");
         }
     }
 
-    public async Task JoinRoom(string roomCode, string username)
+    // Spectators watch without a player slot; someone reclaiming their seat keeps the role they had
+    public async Task JoinRoom(string roomCode, string username, string? sessionToken, bool asSpectator)
     {
         var room = _gameManager.GetRoom(roomCode);
 
@@ -49,42 +112,100 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
             return;
         }
 
-        // Allow re-joining with same username (re-connection case)
-        // If we want to prevent TWO players with same name, we'd check if the other connection is active
-        // but for this project, updating is fine.
+        if (_gameManager.IsBanned(roomCode, username, sessionToken))
+        {
+            await Clients.Caller.SendAsync("Error", "You are banned from this room");
+            return;
+        }
+
+        // Refreshes and dropped connections come back with the token they were given
+        var existing = _gameManager.FindPlayerBySession(roomCode, sessionToken);
+        if (existing == null && _gameManager.IsUsernameTaken(roomCode, username))
+        {
+            await Clients.Caller.SendAsync("Error", "That name is already taken in this room");
+            return;
+        }
+
+        if (existing == null && !asSpectator && room.ActivePlayers.Count >= room.MaxPlayers)
+        {
+            await Clients.Caller.SendAsync("Error", "Room is full");
+            return;
+        }
+
+        if (existing == null && asSpectator && room.Players.Count(p => p.IsSpectator) >= RoomSettings.MaxSpectators)
+        {
+            await Clients.Caller.SendAsync("Error", "Room has too many spectators");
+            return;
+        }
+
+        // Joining again on the same connection (lobby, then game page) isn't news to anyone
+        var isReconnect = existing != null && existing.ConnectionId != Context.ConnectionId;
+        var isNewPlayer = existing == null;
 
-        var player = _gameManager.AddPlayer(roomCode, Context.ConnectionId, username);
+        var player = _gameManager.AddPlayer(roomCode, Context.ConnectionId, username, sessionToken, asSpectator);
 
         if (player != null)
         {
             await Groups.AddToGroupAsync(Context.ConnectionId, room.RoomCode);
 
+            // Taken after joining the group so no stroke falls between snapshot and live relay
+            var drawing = _gameManager.GetDrawingSnapshot(room.RoomCode);
+            var inInnerCircle = _gameManager.IsInInnerCircle(room.RoomCode, Context.ConnectionId);
+            var choosingWord = room.State == GameState.ChoosingWord;
+
             await Clients.Caller.SendAsync("PlayerJoined", new
             {
-                players = room.Players,
+                roomCode = room.RoomCode,
+                players = room.PlayersSnapshot,
                 newPlayer = player,
-                chatHistory = room.ChatHistory,
+                sessionToken = player.SessionToken,
+                chatHistory = room.ChatHistory.Where(m => m.Channel == ChatChannel.All || inInnerCircle).ToList(),
                 gameStarted = room.State != GameState.Waiting,
                 currentDrawer = room.Players.FirstOrDefault(p => p.ConnectionId == room.CurrentDrawerId)?.Username,
                 maskedWord = _gameManager.GetMaskedWord(room.RoomCode),
                 roundEnded = room.State == GameState.RoundEnd,
-                roundNumber = room.RoundNumber
+                choosingWord,
+                // A drawer who refreshes while choosing gets their words back
+                wordChoices = choosingWord && player.IsDrawing ? room.WordChoices : null,
+                // ...and a drawer who refreshes mid-turn gets the word they're drawing
+                currentWord = room.State == GameState.Drawing && player.IsDrawing ? room.CurrentWord : null,
+                choiceEndsAt = RoundService.ToUnixMilliseconds(room.WordChoiceEndsAt),
+                roundNumber = room.RoundNumber,
+                totalRounds = room.TotalRounds,
+                gameEnded = room.State == GameState.GameEnd,
+                settings = _gameManager.GetSettings(room.RoomCode),
+                teams = _gameManager.GetTeamStandings(room.RoomCode),
+                wordPacks = WordBank.Packs.Select(p => new { p.Id, p.Name }),
+                // Custom words would spoil the game for everyone but the host
+                customWords = player.IsHost ? room.CustomWords : null,
+                roundDuration = room.RoundDurationSeconds,
+                maxMessageLength = _chatOptions.MaxMessageLength,
+                roundEndsAt = RoundService.ToUnixMilliseconds(room.RoundEndsAt),
+                nextRoundAt = RoundService.ToUnixMilliseconds(room.NextRoundAt),
+                serverTime = RoundService.ToUnixMilliseconds(DateTime.UtcNow),
+                drawingLog = drawing.Log,
+                drawingSequence = drawing.Sequence
             });
 
-            await Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.Players);
+            await Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
 
-            var systemMessage = new ChatMessage
+            if (isNewPlayer || isReconnect)
             {
-                Username = "System",
-                Message = $"{username} joined the game",
-                IsSystemMessage = true
-            };
-            room.ChatHistory.Add(systemMessage);
+                var systemMessage = new ChatMessage
+                {
+                    Username = "System",
+                    Message = !isNewPlayer ? $"{player.Username} reconnected"
+                        : player.IsSpectator ? $"{player.Username} is spectating"
+                        : $"{player.Username} joined the game",
+                    IsSystemMessage = true
+                };
+                _gameManager.AddChatMessage(room.RoomCode, systemMessage);
 
-            // Broadcast system message
-            await Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", systemMessage);
+                // Broadcast system message
+                await Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", systemMessage);
+            }
 
-            _logger.LogInformation($"{username} joined room {room.RoomCode}");
+            _logger.LogInformation($"{player.Username} joined room {room.RoomCode}");
         }
     }
 
@@ -93,33 +214,78 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
         var room = _gameManager.GetRoom(roomCode);
         if (room == null) return;
 
-        if (room.Players.Count < 2)
+        if (room.ActivePlayers.Count < RoomSettings.MinPlayers)
         {
             await Clients.Caller.SendAsync("Error", "Need at least 2 players to start");
             return;
         }
 
-        room.RoundNumber = 0;
-        _gameManager.StartNewRound(roomCode);
+        if (_gameManager.HasEmptyTeam(roomCode))
+        {
+            await Clients.Caller.SendAsync("Error", "Every team needs at least one player");
+            return;
+        }
+
+        await _roundService.StartFirstRoundAsync(roomCode);
+    }
+
+    // Only the host changes settings, and only before the game starts
+    public async Task UpdateSettings(string roomCode, RoomSettings settings)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null || settings == null) return;
 
-        var drawer = room.Players.First(p => p.IsDrawing);
-        await Clients.Client(drawer.ConnectionId).SendAsync("YourTurnToDraw", new
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || !player.IsHost) return;
+
+        if (!_gameManager.TryUpdateSettings(roomCode, settings, out var error))
         {
-            word = room.CurrentWord,
-            roundDuration = room.RoundDurationSeconds,
-            roundNumber = room.RoundNumber
-        });
+            await Clients.Caller.SendAsync("Error", error);
+            return;
+        }
+
+        await Clients.Group(room.RoomCode).SendAsync("SettingsUpdated", _gameManager.GetSettings(roomCode));
+
+        // Turning teams on, off or changing their number deals everyone out again
+        await Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
+        await Clients.Group(room.RoomCode).SendAsync("TeamsUpdated", _gameManager.GetTeamStandings(roomCode));
+        _logger.LogInformation($"Settings updated in room {room.RoomCode}");
+    }
+
+    public async Task SetCustomWords(string roomCode, List<string> words)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null || words == null) return;
+
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || !player.IsHost) return;
 
-        var maskedWord = _gameManager.GetMaskedWord(roomCode);
-        await Clients.GroupExcept(roomCode, drawer.ConnectionId).SendAsync("RoundStarted", new
+        if (!_gameManager.TryUpdateCustomWords(roomCode, words, out var rejected, out var error))
         {
-            drawer = drawer.Username,
-            wordLength = room.CurrentWord.Length,
-            maskedWord = maskedWord,
-            roundDuration = room.RoundDurationSeconds,
-            roundNumber = room.RoundNumber
+            await Clients.Caller.SendAsync("Error", error);
+            return;
+        }
+
+        await Clients.Caller.SendAsync("CustomWordsUpdated", new
+        {
+            words = room.CustomWords,
+            rejected
         });
-        _logger.LogInformation($"Game started in room {roomCode}");
+
+        // Everyone else only learns how many there are
+        await Clients.Group(room.RoomCode).SendAsync("SettingsUpdated", _gameManager.GetSettings(roomCode));
+    }
+
+    public async Task ChooseWord(string roomCode, string word)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null || string.IsNullOrWhiteSpace(word)) return;
+
+        // Only the drawer picks, and only while the round hasn't started
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || !player.IsDrawing || room.State != GameState.ChoosingWord) return;
+
+        await _roundService.ChooseWordAsync(roomCode, word);
     }
 
     public async Task SendDrawing(string roomCode, DrawingData drawingData)
@@ -129,7 +295,33 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
 
         // Verify sender is the current drawer
         var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
-        if (player == null || !player.IsDrawing) return;
+        if (player == null || !player.IsDrawing || room.State != GameState.Drawing) return;
+
+        if (!DrawingActions.Contains(drawingData.Action) || !drawingData.HasValidColor()) return;
+        if (drawingData.Action == "shape" && (drawingData.Shape == null || !ShapeKinds.Contains(drawingData.Shape))) return;
+
+        // Drop oversized stroke chunks instead of relaying them
+        if (drawingData.Points != null && drawingData.Points.Count > MaxStrokePoints) return;
+        if (drawingData.Pressures != null && drawingData.Pressures.Count > MaxStrokePoints / 2) return;
+
+        // Nothing off the board or unbounded reaches the other canvases
+        if (!drawingData.TryClampToBoard()) return;
+
+        // Keep it so late joiners can replay the canvas
+        if (!_gameManager.RecordDrawing(roomCode, drawingData))
+        {
+            // Once per refused operation, not for every chunk of a stroke
+            if (drawingData.IsFinal || drawingData.Action is "fill" or "shape")
+            {
+                await Clients.Caller.SendAsync("ReceiveMessage", new ChatMessage
+                {
+                    Username = "System",
+                    Message = "The canvas is full. Clear it to keep drawing",
+                    IsSystemMessage = true
+                });
+            }
+            return;
+        }
 
         // Broadcast to everyone EXCEPT the sender
         // (sender already has it on their own canvas)
@@ -142,16 +334,73 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
         if (room == null) return;
 
         var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
-        if (player == null) return;
+        if (player == null || string.IsNullOrWhiteSpace(message)) return;
 
-        if (player.IsDrawing)
+        if (message.Length > _chatOptions.MaxMessageLength)
+        {
+            await Clients.Caller.SendAsync("Error", $"Messages can be at most {_chatOptions.MaxMessageLength} characters");
+            return;
+        }
+
+        if (!_chatRateLimiter.TryAcquire(Context.ConnectionId, out var cooldownEndsAt))
+        {
+            await Clients.Caller.SendAsync("ChatCooldown", new
+            {
+                cooldownEndsAt = RoundService.ToUnixMilliseconds(cooldownEndsAt),
+                serverTime = RoundService.ToUnixMilliseconds(DateTime.UtcNow)
+            });
+            return;
+        }
+
+        // Guesses are checked as typed; everyone sees the filtered text
+        var text = _chatFilter.Mask(message);
+
+        // Players who know the word can't spell it out for the others
+        if ((player.IsDrawing || player.HasGuessedCorrectly) && _gameManager.RevealsWord(roomCode, message))
+        {
+            await Clients.Caller.SendAsync("ReceiveMessage", new ChatMessage
+            {
+                Username = "System",
+                Message = "You can't reveal the word in chat!",
+                IsSystemMessage = true
+            });
+            return;
+        }
+
+        // Spectators can chat but not guess, so a message that would count as one stays with them
+        if (player.IsSpectator && _gameManager.RevealsWord(roomCode, message))
+        {
+            await Clients.Caller.SendAsync("ReceiveMessage", new ChatMessage
+            {
+                Username = "System",
+                Message = "Spectators can't guess the word",
+                IsSystemMessage = true
+            });
+            return;
+        }
+
+        // Keep talk among those who know the word away from the guessers
+        if (_gameManager.IsInInnerCircle(roomCode, Context.ConnectionId))
+        {
+            var privateMsg = new ChatMessage
+            {
+                Username = player.Username,
+                Message = text,
+                Channel = ChatChannel.Guessed
+            };
+            _gameManager.AddChatMessage(room.RoomCode, privateMsg);
+            await Clients.Clients(_gameManager.GetInnerCircle(roomCode)).SendAsync("ReceiveMessage", privateMsg);
+            return;
+        }
+
+        if (player.IsDrawing || player.IsSpectator)
         {
             var chatMsg = new ChatMessage
             {
                 Username = player.Username,
-                Message = message
+                Message = text
             };
-            room.ChatHistory.Add(chatMsg);
+            _gameManager.AddChatMessage(room.RoomCode, chatMsg);
             await Clients.Group(roomCode).SendAsync("ReceiveMessage", chatMsg);
             return;
         }
@@ -168,7 +417,7 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
                 IsCorrectGuess = true
 
             };
-            room.ChatHistory.Add(correctMsg);
+            _gameManager.AddChatMessage(room.RoomCode, correctMsg);
 
             await Clients.Group(roomCode).SendAsync("CorrectGuess", new
             {
@@ -178,78 +427,89 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
 
             await Clients.Group(roomCode).SendAsync("ReceiveMessage", correctMsg);
             // Update player scores
-            await Clients.Group(roomCode).SendAsync("PlayersUpdated", room.Players);
+            await Clients.Group(roomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
+            if (room.TeamCount > 0)
+            {
+                await Clients.Group(roomCode).SendAsync("TeamsUpdated", _gameManager.GetTeamStandings(roomCode));
+            }
 
             // Check if all non-drawers have guessed
-            var allGuessed = room.Players
-                .Where(p => !p.IsDrawing)
-                .All(p => p.HasGuessedCorrectly);
-            if (allGuessed)
+            if (_gameManager.HaveAllGuessed(roomCode))
             {
-                await EndRound(roomCode);
+                await _roundService.EndRoundAsync(roomCode);
             }
         }
+        else if (_gameManager.IsCloseGuess(roomCode, message))
+        {
+            // Only the guesser sees a near miss, so it gives nothing away to the others
+            await Clients.Caller.SendAsync("ReceiveMessage", new ChatMessage
+            {
+                Username = player.Username,
+                Message = text
+            });
+            await Clients.Caller.SendAsync("ReceiveMessage", new ChatMessage
+            {
+                Username = "System",
+                Message = $"'{text.Trim()}' is close!",
+                IsSystemMessage = true,
+                IsCloseGuess = true
+            });
+        }
         else
         {
             // Regular chat message
             var chatMsg = new ChatMessage
             {
                 Username = player.Username,
-                Message = message
+                Message = text
             };
-            room.ChatHistory.Add(chatMsg);
+            _gameManager.AddChatMessage(room.RoomCode, chatMsg);
             await Clients.Group(roomCode).SendAsync("ReceiveMessage", chatMsg);
         }
     }
 
+    // Rounds end on the server's clock; clients may only nudge one that is already overdue
     public async Task EndRound(string roomCode)
     {
         var room = _gameManager.GetRoom(roomCode);
         if (room == null) return;
 
-        room.State = GameState.RoundEnd;
-
-        // Show results to everyone
-        await Clients.Group(roomCode).SendAsync("RoundEnded", new
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || room.State != GameState.Drawing || DateTime.UtcNow < room.RoundEndsAt)
         {
-            word = room.CurrentWord,
-            players = room.Players.OrderByDescending(p => p.Score).ToList()
-        });
+            _logger.LogWarning($"Rejected early EndRound in room {roomCode} from {Context.ConnectionId}");
+            return;
+        }
 
-        _logger.LogInformation($"Round ended in room {roomCode}");
+        await _roundService.EndRoundAsync(roomCode);
     }
 
+    // Only the host may skip the rest of the pause between rounds
     public async Task NextRound(string roomCode)
     {
         var room = _gameManager.GetRoom(roomCode);
         if (room == null || room.State != GameState.RoundEnd) return;
 
-        // Clear everyone's canvas
-        await Clients.Group(roomCode).SendAsync("ClearCanvas");
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || !player.IsHost || DateTime.UtcNow < room.NextRoundAt)
+        {
+            _logger.LogWarning($"Rejected NextRound in room {roomCode} from {Context.ConnectionId}");
+            return;
+        }
 
-        // Start new round
-        _gameManager.StartNewRound(roomCode);
+        await _roundService.NextRoundAsync(roomCode);
+    }
 
-        var drawer = room.Players.First(p => p.IsDrawing);
+    // Only the host can send everyone back to the waiting room once the game is over
+    public async Task PlayAgain(string roomCode)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null || room.State != GameState.GameEnd) return;
 
-        // Notify drawer
-        await Clients.Client(drawer.ConnectionId).SendAsync("YourTurnToDraw", new
-        {
-            word = room.CurrentWord,
-            roundDuration = room.RoundDurationSeconds,
-            roundNumber = room.RoundNumber
-        });
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || !player.IsHost) return;
 
-        // Notify guessers
-        var maskedWord = _gameManager.GetMaskedWord(roomCode);
-        await Clients.GroupExcept(roomCode, drawer.ConnectionId).SendAsync("RoundStarted", new
-        {
-            drawer = drawer.Username,
-            wordLength = room.CurrentWord.Length,
-            maskedWord = maskedWord,
-            roundDuration = room.RoundDurationSeconds,
-            roundNumber = room.RoundNumber
-        });
+        await _roundService.ResetGameAsync(roomCode);
     }
 
     public async Task ClearCanvas(string roomCode)
@@ -259,59 +519,197 @@ public class GameHub(GameManager gameManager, ILogger<GameHub> logger) : Hub
 
         // Verify sender is drawer
         var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
-        if (player == null || !player.IsDrawing) return;
+        if (player == null || !player.IsDrawing || room.State != GameState.Drawing) return;
 
-        await Clients.Group(roomCode).SendAsync("ClearCanvas");
+        var sequence = _gameManager.ClearDrawingLog(roomCode);
+
+        await Clients.Group(roomCode).SendAsync("ClearCanvas", new { sequence });
     }
 
-    public override async Task OnDisconnectedAsync(Exception? exception)
+    public async Task UndoStroke(string roomCode, string strokeId)
     {
-        // Find which room the player was in
-        foreach (var room in _gameManager.GetAllRooms())
+        await RelayStrokeHistory(roomCode, strokeId, "undo", "UndoStroke");
+    }
+
+    public async Task RedoStroke(string roomCode, string strokeId)
+    {
+        await RelayStrokeHistory(roomCode, strokeId, "redo", "RedoStroke");
+    }
+
+    // Undo/redo are logged like strokes so late joiners replay them in order
+    private async Task RelayStrokeHistory(string roomCode, string strokeId, string action, string eventName)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null || string.IsNullOrEmpty(strokeId)) return;
+
+        // Verify sender is drawer
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null || !player.IsDrawing || room.State != GameState.Drawing) return;
+
+        var drawingData = new DrawingData
         {
-            var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+            Action = action,
+            StrokeId = strokeId
+        };
+        if (!_gameManager.RecordDrawing(roomCode, drawingData)) return;
 
-            if (player != null)
-            {
-                var wasDrawing = player.IsDrawing;
+        await Clients.OthersInGroup(roomCode).SendAsync(eventName, drawingData);
+    }
 
-                // Remove player
-                _gameManager.RemovePlayer(room.RoomCode, Context.ConnectionId);
+    // Host only, before the game starts: deal the players out to random teams
+    public async Task ShuffleTeams(string roomCode)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null) return;
 
-                // Notify others
-                var systemMessage = new ChatMessage
-                {
-                    Username = "System",
-                    Message = $"{player.Username} left the game",
-                    IsSystemMessage = true
-                };
+        var host = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (host == null || !host.IsHost) return;
 
-                await Clients.Group(room.RoomCode).SendAsync("PlayerLeft", new
-                {
-                    players = room.Players,
-                    leftPlayer = player
-                });
+        if (!_gameManager.TryShuffleTeams(roomCode, out var error))
+        {
+            await Clients.Caller.SendAsync("Error", error);
+            return;
+        }
 
-                await Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", systemMessage);
+        await Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
+    }
 
-                // If drawer left, end the round
-                if (wasDrawing && room.Players.Count > 0)
-                {
-                    await EndRound(room.RoomCode);
-                }
+    // Host only, before the game starts: move one player to another team
+    public async Task AssignTeam(string roomCode, string connectionId, int team)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null) return;
 
-                _logger.LogInformation($"{player.Username} disconnected from room {room.RoomCode}");
-                break;
-            }
+        var host = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (host == null || !host.IsHost) return;
+
+        if (!_gameManager.TryAssignTeam(roomCode, connectionId, team, out var error))
+        {
+            await Clients.Caller.SendAsync("Error", error);
+            return;
         }
 
-        await base.OnDisconnectedAsync(exception);
+        await Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
     }
 
-}
+    // Between rounds, sit out and watch or take a free seat and play
+    public async Task SetSpectating(string roomCode, bool spectate)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null) return;
 
+        if (!_gameManager.TrySetSpectating(roomCode, Context.ConnectionId, spectate, out var error))
+        {
+            await Clients.Caller.SendAsync("Error", error);
+            return;
+        }
+
+        var player = room.Players.First(p => p.ConnectionId == Context.ConnectionId);
+        var systemMessage = new ChatMessage
+        {
+            Username = "System",
+            Message = spectate ? $"{player.Username} is now spectating" : $"{player.Username} joined the game",
+            IsSystemMessage = true
+        };
+        _gameManager.AddChatMessage(room.RoomCode, systemMessage);
 
+        await Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
+        await Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", systemMessage);
 
+        _logger.LogInformation($"{player.Username} {(spectate ? "is spectating" : "is playing")} in room {room.RoomCode}");
+    }
 
+    // Host only. A ban also keeps the player's name and session out of the room
+    public async Task KickPlayer(string roomCode, string connectionId, bool ban)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null) return;
 
+        var host = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (host == null || !host.IsHost) return;
+
+        var target = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+        if (target == null || target == host) return;
+
+        if (ban)
+        {
+            _gameManager.BanPlayer(roomCode, target);
+        }
+
+        await _presenceService.KickAsync(room, target,
+            ban ? "You were banned from this room by the host" : "You were kicked from the room by the host",
+            $"{target.Username} was {(ban ? "banned" : "kicked")} by the host");
+
+        _logger.LogInformation($"{target.Username} was {(ban ? "banned" : "kicked")} from room {room.RoomCode}");
+    }
+
+    // Any player can start or join a vote; a majority of the other players kicks the target
+    public async Task VoteKick(string roomCode, string connectionId)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null) return;
+
+        var voter = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        var target = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+        if (voter == null || target == null || target == voter) return;
+
+        if (voter.IsSpectator)
+        {
+            await Clients.Caller.SendAsync("Error", "Spectators can't vote to kick");
+            return;
+        }
 
+        if (_gameManager.GetVoters(room).Count < RoomSettings.MinPlayersForVoteKick)
+        {
+            await Clients.Caller.SendAsync("Error", $"Vote-kick needs at least {RoomSettings.MinPlayersForVoteKick} players");
+            return;
+        }
+
+        if (!_gameManager.TryAddKickVote(roomCode, voter, target, out var votes, out var needed))
+        {
+            await Clients.Caller.SendAsync("Error", $"You already voted to kick {target.Username}");
+            return;
+        }
+
+        if (votes >= needed)
+        {
+            await _presenceService.KickAsync(room, target, "You were voted out of the room",
+                $"{target.Username} was voted out");
+            _logger.LogInformation($"{target.Username} was voted out of room {room.RoomCode}");
+            return;
+        }
+
+        var systemMessage = new ChatMessage
+        {
+            Username = "System",
+            Message = $"{voter.Username} voted to kick {target.Username} ({votes}/{needed})",
+            IsSystemMessage = true
+        };
+        _gameManager.AddChatMessage(room.RoomCode, systemMessage);
+
+        await Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", systemMessage);
+    }
+
+    // Leaving on purpose gives up the seat straight away
+    public async Task LeaveRoom(string roomCode)
+    {
+        var room = _gameManager.GetRoom(roomCode);
+        if (room == null) return;
+
+        var player = room.Players.FirstOrDefault(p => p.ConnectionId == Context.ConnectionId);
+        if (player == null) return;
+
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, room.RoomCode);
+        await _presenceService.RemovePlayerAsync(room, player);
+    }
+
+    public override async Task OnDisconnectedAsync(Exception? exception)
+    {
+        // The player keeps their seat for a while in case they reconnect
+        await _presenceService.DisconnectAsync(Context.ConnectionId);
+        _chatRateLimiter.Forget(Context.ConnectionId);
+
+        await base.OnDisconnectedAsync(exception);
+    }
+
+}
@@ -0,0 +1,21 @@
+﻿namespace scribble.API.Models
+{
+    // Chat limits and word filter, bound from the "Chat" section of appsettings.json
+    public class ChatOptions
+    {
+        public const string SectionName = "Chat";
+
+        public int MaxMessageLength { get; set; } = 100;
+
+        // Sending more than MessagesPerWindow messages within WindowSeconds starts a cooldown
+        public int MessagesPerWindow { get; set; } = 5;
+        public int WindowSeconds { get; set; } = 5;
+        public int CooldownSeconds { get; set; } = 10;
+
+        // Most messages kept per room (what a late joiner gets)
+        public int HistoryLimit { get; set; } = 100;
+
+        // Whole words masked with asterisks, ignoring case
+        public List<string> BlockedWords { get; set; } = new();
+    }
+}
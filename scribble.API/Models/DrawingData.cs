@@ -1,10 +1,23 @@
-﻿namespace scribble.API.Models
+﻿using System.Text.RegularExpressions;
+
+namespace scribble.API.Models
 {
     public class DrawingData
     {
+        private static readonly Regex ColorPattern = new("^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$", RegexOptions.Compiled);
+
+        // The board legacy positions are measured on
+        public const double LegacyBoardWidth = 1200;
+        public const double LegacyBoardHeight = 600;
+
+        // Widest brush, as a fraction of the board width
+        public const double MaxLineWidth = 0.05;
+
+        // Positions are 0..1 of the board (pixels of a 1200x600 board for legacy "draw";
+        // unused by "stroke" and "erase", which send Points)
         public double X { get; set; }
 
-        // Current Y position
+        // Current Y position (seed point for "fill")
         public double Y { get; set; }
 
         // Previous X position (to draw lines)
@@ -13,13 +26,60 @@
         // Previous Y position
         public double PrevY { get; set; }
 
-        // Color in hex format (e.g., "#FF0000" for red)
+        // Color in hex format, optionally with alpha (e.g., "#FF0000" for red, "#FF000080" for 50% red)
         public string Color { get; set; } = "#000000";
 
-        // Brush size in pixels
-        public int LineWidth { get; set; } = 2;
+        // Brush size: a fraction of the board width (pixels of a 1200px board for legacy "draw")
+        public double LineWidth { get; set; } = 2;
 
-        // What action? "draw" or "clear"
+        // What action? "draw", "stroke", "erase", "fill", "shape", "undo", "redo" or "clear"
         public string Action { get; set; } = "draw";
+
+        // Operation this message belongs to ("stroke", "erase", "fill", "shape"), or the one to undo/redo
+        public string? StrokeId { get; set; }
+
+        // Batched points of a stroke (0..1 of the board), flattened as [x0, y0, x1, y1, ...]
+        public List<double>? Points { get; set; }
+
+        // Pen pressure per point (0..1), only sent for stylus strokes
+        public List<double>? Pressures { get; set; }
+
+        // Is this the last chunk of the stroke?
+        public bool IsFinal { get; set; }
+
+        // "line", "rect" or "ellipse", drawn from (PrevX, PrevY) to (X, Y)
+        public string? Shape { get; set; }
+
+        // Fill the rectangle/ellipse instead of outlining it
+        public bool Filled { get; set; }
+
+        // Position in the room's drawing log (assigned by the server)
+        public long Sequence { get; set; }
+
+        // Only "#RRGGBB" / "#RRGGBBAA" may reach other players' strokeStyle
+        public bool HasValidColor()
+        {
+            return Color != null && ColorPattern.IsMatch(Color);
+        }
+
+        // False if anything can't be drawn (NaN, infinity, no width); positions off the board are pulled onto its edge
+        public bool TryClampToBoard()
+        {
+            var values = new[] { X, Y, PrevX, PrevY, LineWidth }.Concat(Points ?? new()).Concat(Pressures ?? new());
+            if (values.Any(v => !double.IsFinite(v)) || LineWidth <= 0) return false;
+
+            var inPixels = Action == "draw";
+            var width = inPixels ? LegacyBoardWidth : 1;
+            var height = inPixels ? LegacyBoardHeight : 1;
+
+            X = Math.Clamp(X, 0, width);
+            Y = Math.Clamp(Y, 0, height);
+            PrevX = Math.Clamp(PrevX, 0, width);
+            PrevY = Math.Clamp(PrevY, 0, height);
+            LineWidth = Math.Min(LineWidth, Action == "draw" ? MaxLineWidth * LegacyBoardWidth : MaxLineWidth);
+            Points = Points?.Select(p => Math.Clamp(p, 0, 1)).ToList();
+            Pressures = Pressures?.Select(p => Math.Clamp(p, 0, 1)).ToList();
+            return true;
+        }
     }
 }
@@ -8,32 +8,100 @@
         // All players in this room
         public List<Player> Players { get; set; } = new();
 
+        // Players taking turns and guessing (everyone but the spectators)
+        public List<Player> ActivePlayers
+        {
+            get { lock (this) return Players.Where(p => !p.IsSpectator).ToList(); }
+        }
+
+        // Copy of Players taken under the room lock, safe to send while players join and leave on other threads
+        public List<Player> PlayersSnapshot
+        {
+            get { lock (this) return Players.ToList(); }
+        }
+
         // ConnectionId of the current drawer
         public string CurrentDrawerId { get; set; } = string.Empty;
 
         // The word being drawn (secret!)
         public string CurrentWord { get; set; } = string.Empty;
 
+        // Words the drawer may pick from while choosing
+        public List<string> WordChoices { get; set; } = new();
+
+        // How long the drawer has to pick a word
+        public int WordChoiceSeconds { get; set; } = 15;
+
+        // When does the drawer run out of time to pick? (a random choice is made then)
+        public DateTime WordChoiceEndsAt { get; set; }
+
+        // Most letters revealed as hints over a round (never more than half the word)
+        public int HintCount { get; set; } = 3;
+
+        // Positions in CurrentWord revealed to guessers so far
+        public HashSet<int> RevealedLetters { get; set; } = new();
+
         // When did this round start?
         public DateTime RoundStartTime { get; set; }
 
-        // Which round are we on?
+        // Which round are we on? (every player draws once per round)
         public int RoundNumber { get; set; }
 
+        // How many rounds make up a game
+        public int TotalRounds { get; set; } = 3;
+
         // How long is each round? (default 80 seconds)
         public int RoundDurationSeconds { get; set; } = 80;
 
+        // When does the current round run out? (server clock, UTC)
+        public DateTime RoundEndsAt => RoundStartTime.AddSeconds(RoundDurationSeconds);
+
+        // Pause between the end of a round and the next one
+        public int IntermissionSeconds { get; set; } = 5;
+
+        // When does the next round start? (set when a round ends)
+        public DateTime NextRoundAt { get; set; }
+
         // Current game state
         public GameState State { get; set; } = GameState.Waiting;
 
+        // Most players allowed in the room at once
+        public int MaxPlayers { get; set; } = 8;
+
+        // Which built-in word pack is used (see WordBank)
+        public string WordDifficulty { get; set; } = WordBank.Mixed;
+
+        // Words added by the host, mixed into the built-in ones unless CustomWordsOnly
+        public List<string> CustomWords { get; set; } = new();
+        public bool CustomWordsOnly { get; set; }
+
+        // Number of teams players are split into (0 = everyone for themselves)
+        public int TeamCount { get; set; }
+
+        // Points each team has earned this game, by team number
+        public List<int> TeamScores { get; set; } = new();
+
+        // Public rooms can be found by anyone; private ones only with the code
+        public bool IsPublic { get; set; }
+
+        // Players the host banned, by session token and by name (for as long as the room exists)
+        public HashSet<string> BannedTokens { get; set; } = new();
+        public HashSet<string> BannedNames { get; set; } = new(StringComparer.OrdinalIgnoreCase);
+
+        // Vote-kicks in progress: target's session token -> voters' session tokens
+        public Dictionary<string, HashSet<string>> KickVotes { get; set; } = new();
+
         // Pool of words to choose from
-        public List<string> WordPool { get; set; } = new()
-        {
-            "elephant", "guitar", "pizza", "rainbow", "computer",
-            "mountain", "bicycle", "sunset", "robot", "castle",
-            "butterfly", "lighthouse", "dinosaur", "volcano", "spaceship",
-            "waterfall", "penguin", "keyboard", "umbrella", "telescope"
-        };
+        public List<string> WordPool { get; set; } = WordBank.GetWords(WordBank.Mixed);
+
+        // Drawing messages of the current round, in the order they were relayed
+        public List<DrawingData> DrawingLog { get; set; } = new();
+
+        // Last sequence number handed out to a drawing message (never reset)
+        public long DrawingSequence { get; set; }
+
+        // Points in the drawing log, counted toward its cap
+        public int DrawingPointCount { get; set; }
 
         // Chat message history
         public List<ChatMessage> ChatHistory { get; set; } = new();
@@ -45,10 +113,10 @@
     public enum GameState
     {
         Waiting,      // Waiting for players to join
-        ChoosingWord, // (Future: Let drawer choose from 3 words)
+        ChoosingWord, // Drawer is picking one of 3 words
         Drawing,      // Active drawing round
         RoundEnd,     // Round ended, showing results
-        GameEnd       // (Future: Game completely over)
+        GameEnd       // All rounds played, showing final results
     }
 
 
@@ -59,5 +127,15 @@
         public DateTime Timestamp { get; set; } = DateTime.UtcNow;
         public bool IsSystemMessage { get; set; }
         public bool IsCorrectGuess { get; set; }
+        public bool IsCloseGuess { get; set; }
+
+        // Who can see the message (see ChatChannel)
+        public string Channel { get; set; } = ChatChannel.All;
+    }
+
+    public static class ChatChannel
+    {
+        public const string All = "all";         // Everyone in the room
+        public const string Guessed = "guessed"; // Only the drawer and players who guessed the word
     }
 } 
\ No newline at end of file
@@ -1,25 +1,55 @@
-﻿namespace scribble.API.Models
+﻿using System.Text.Json.Serialization;
+
+namespace scribble.API.Models
 {
     public class Player
     {
         // SignalR connection ID - unique identifier for each connection
         public string ConnectionId { get; set; } = string.Empty;
 
+        // Secret handed only to this player, used to reclaim their seat from a new connection
+        [JsonIgnore]
+        public string SessionToken { get; set; } = string.Empty;
+
         // Player's chosen username
         public string Username { get; set; } = string.Empty;
 
         // Current score (accumulates across rounds)
         public int Score { get; set; }
 
+        // Points earned in the current turn, shown in the round breakdown
+        public int RoundPoints { get; set; }
+
         // Is this player currently drawing?
         public bool IsDrawing { get; set; }
 
         // Has this player guessed correctly this round?
         public bool HasGuessedCorrectly { get; set; }
 
+        // Has this player had their turn to draw in the current round?
+        public bool HasDrawnThisRound { get; set; }
+
+        // Game stats, shown on the final results screen
+        public int WordsGuessed { get; set; }
+        public double? FastestGuessSeconds { get; set; }
+        public int TurnsDrawn { get; set; }
+        public int DrawingsGuessed { get; set; } // Correct guesses on this player's drawings
+
         // Is this player the room host?
         public bool IsHost { get; set; }
 
+        // Spectators see the drawing, chat and rounds but never draw, guess or score
+        public bool IsSpectator { get; set; }
+
+        // Which team the player is on in team mode (null without teams, and for spectators)
+        public int? Team { get; set; }
+
+        // Is the player's connection up? Dropped players keep their seat for a grace period
+        public bool IsConnected { get; set; } = true;
+
+        [JsonIgnore]
+        public DateTime? DisconnectedAt { get; set; }
+
         // When did the player join?
         public DateTime JoinedAt { get; set; } = DateTime.UtcNow;
     }
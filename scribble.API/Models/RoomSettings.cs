@@ -0,0 +1,59 @@
+﻿namespace scribble.API.Models
+{
+    // Options the host can change before the game starts
+    public class RoomSettings
+    {
+        public const int MinDrawTimeSeconds = 30;
+        public const int MaxDrawTimeSeconds = 240;
+        public const int MaxRounds = 10;
+        public const int MinPlayers = 2;
+        public const int MinPlayersForVoteKick = 3; // With two, one player could throw out the other
+        public const int MaxPlayersLimit = 16;
+        public const int MaxSpectators = 20; // Spectators don't take a player slot
+        public const int MaxHintCount = 5;
+        public const int MinCustomWordsOnly = 3; // Enough for a full word choice
+        public const int MaxTeams = 4;
+
+        public int DrawTimeSeconds { get; set; } = 80;
+        public int Rounds { get; set; } = 3;
+        public int MaxPlayers { get; set; } = 8;
+        public int HintCount { get; set; } = 3;
+        public string WordDifficulty { get; set; } = WordBank.Mixed; // A word pack id, or "mixed"
+        public bool CustomWordsOnly { get; set; }
+        public bool IsPublic { get; set; }
+        public int TeamCount { get; set; } // 0 for no teams
+
+        // Filled in by the server; the list itself is only sent to the host
+        public int CustomWordCount { get; set; }
+
+        // Returns why the settings can't be used, or null if they're fine
+        public string? Validate(int playerCount, int customWordCount)
+        {
+            if (DrawTimeSeconds < MinDrawTimeSeconds || DrawTimeSeconds > MaxDrawTimeSeconds)
+                return $"Draw time must be between {MinDrawTimeSeconds} and {MaxDrawTimeSeconds} seconds";
+
+            if (Rounds < 1 || Rounds > MaxRounds)
+                return $"Rounds must be between 1 and {MaxRounds}";
+
+            if (MaxPlayers < MinPlayers || MaxPlayers > MaxPlayersLimit)
+                return $"Max players must be between {MinPlayers} and {MaxPlayersLimit}";
+
+            if (MaxPlayers < playerCount)
+                return $"There are already {playerCount} players in the room";
+
+            if (HintCount < 0 || HintCount > MaxHintCount)
+                return $"Hints must be between 0 and {MaxHintCount}";
+
+            if (TeamCount != 0 && (TeamCount < 2 || TeamCount > MaxTeams))
+                return $"Teams must be off or between 2 and {MaxTeams}";
+
+            if (!WordBank.IsKnownPack(WordDifficulty))
+                return "Unknown word pack";
+
+            if (CustomWordsOnly && customWordCount < MinCustomWordsOnly)
+                return $"Add at least {MinCustomWordsOnly} custom words to play with only custom words";
+
+            return null;
+        }
+    }
+}
@@ -0,0 +1,16 @@
+﻿namespace scribble.API.Models
+{
+    // A public room as listed in the lobby's room browser
+    public class RoomSummary
+    {
+        public string RoomCode { get; set; } = string.Empty;
+        public string HostName { get; set; } = string.Empty;
+        public int PlayerCount { get; set; }
+        public int MaxPlayers { get; set; }
+        public int RoundNumber { get; set; }
+        public int TotalRounds { get; set; }
+
+        // GameState name: Waiting, ChoosingWord, Drawing, RoundEnd or GameEnd
+        public string State { get; set; } = string.Empty;
+    }
+}
@@ -0,0 +1,9 @@
+﻿namespace scribble.API.Models
+{
+    // A team's running total in team mode (teams are numbered from 0)
+    public class TeamStanding
+    {
+        public int Team { get; set; }
+        public int Score { get; set; }
+    }
+}
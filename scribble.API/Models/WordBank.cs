@@ -0,0 +1,86 @@
+﻿using System.Text.Json;
+using System.Text.RegularExpressions;
+
+namespace scribble.API.Models
+{
+    // Built-in word packs (loaded from Data/word-packs.json) and checks for custom words
+    public static class WordBank
+    {
+        public const string Mixed = "mixed"; // Every built-in pack together
+
+        public const int MaxCustomWords = 500;
+        public const int MinWordLength = 2;
+        public const int MaxWordLength = 30;
+
+        // Letters and digits, with single spaces, hyphens or apostrophes between them
+        private static readonly Regex WordPattern = new(@"^[\p{L}\p{N}]+(?:[ '\-][\p{L}\p{N}]+)*$", RegexOptions.Compiled);
+
+        private static readonly Lazy<List<WordPack>> LoadedPacks = new(LoadPacks);
+
+        public static IReadOnlyList<WordPack> Packs => LoadedPacks.Value;
+
+        public static bool IsKnownPack(string id)
+        {
+            return id == Mixed || Packs.Any(p => p.Id == id);
+        }
+
+        public static List<string> GetWords(string packId)
+        {
+            var pack = Packs.FirstOrDefault(p => p.Id == packId);
+            if (pack != null)
+            {
+                return new List<string>(pack.Words);
+            }
+
+            return Packs.SelectMany(p => p.Words).Distinct(StringComparer.OrdinalIgnoreCase).ToList();
+        }
+
+        // Trims and tidies a custom list, dropping duplicates (ignoring case) and setting aside invalid words
+        public static List<string> CleanCustomWords(IEnumerable<string> input, out List<string> rejected)
+        {
+            var words = new List<string>();
+            var seen = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+            rejected = new List<string>();
+
+            foreach (var raw in input)
+            {
+                var word = Regex.Replace(raw ?? string.Empty, @"\s+", " ").Trim();
+                if (word.Length == 0) continue;
+
+                if (word.Length < MinWordLength || word.Length > MaxWordLength || !WordPattern.IsMatch(word))
+                {
+                    rejected.Add(word);
+                    continue;
+                }
+
+                if (seen.Add(word))
+                {
+                    words.Add(word);
+                }
+            }
+
+            return words;
+        }
+
+        private static List<WordPack> LoadPacks()
+        {
+            var path = Path.Combine(AppContext.BaseDirectory, "Data", "word-packs.json");
+            var file = JsonSerializer.Deserialize<WordPackFile>(File.ReadAllText(path),
+                new JsonSerializerOptions { PropertyNameCaseInsensitive = true });
+
+            return file?.Packs ?? new();
+        }
+
+        private class WordPackFile
+        {
+            public List<WordPack> Packs { get; set; } = new();
+        }
+    }
+
+    public class WordPack
+    {
+        public string Id { get; set; } = string.Empty;
+        public string Name { get; set; } = string.Empty;
+        public List<string> Words { get; set; } = new();
+    }
+}
@@ -1,4 +1,5 @@
 using scribble.API.Hubs;
+using scribble.API.Models;
 using scribble.API.Services;
 
 var builder = WebApplication.CreateBuilder(args);
@@ -10,7 +11,14 @@ builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen();
 
 builder.Services.AddSignalR();
+builder.Services.Configure<ChatOptions>(builder.Configuration.GetSection(ChatOptions.SectionName));
+builder.Services.AddSingleton<ChatFilter>();
+builder.Services.AddSingleton<ChatRateLimiter>();
 builder.Services.AddSingleton<GameManager>();
+builder.Services.AddSingleton<RoundService>();
+builder.Services.AddSingleton<PresenceService>();
+builder.Services.AddHostedService<RoundTimerService>();
+builder.Services.AddHostedService<RoomBrowserService>();
 
 builder.Services.AddCors(options =>
 {
@@ -0,0 +1,33 @@
+using System.Text.RegularExpressions;
+using Microsoft.Extensions.Options;
+using scribble.API.Models;
+
+namespace scribble.API.Services
+{
+    // Masks the configured blocked words in chat messages
+    public class ChatFilter(IOptions<ChatOptions> options)
+    {
+        private readonly Regex? _blockedWords = BuildPattern(options.Value.BlockedWords);
+
+        public string Mask(string message)
+        {
+            if (_blockedWords == null) return message;
+
+            return _blockedWords.Replace(message, match => new string('*', match.Length));
+        }
+
+        private static Regex? BuildPattern(IEnumerable<string> words)
+        {
+            var alternatives = words
+                .Select(w => w.Trim())
+                .Where(w => w.Length > 0)
+                .Select(Regex.Escape)
+                .ToList();
+
+            if (alternatives.Count == 0) return null;
+
+            return new Regex($@"\b(?:{string.Join("|", alternatives)})\b",
+                RegexOptions.IgnoreCase | RegexOptions.CultureInvariant | RegexOptions.Compiled);
+        }
+    }
+}
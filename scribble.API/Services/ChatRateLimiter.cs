@@ -0,0 +1,54 @@
+using System.Collections.Concurrent;
+using Microsoft.Extensions.Options;
+using scribble.API.Models;
+
+namespace scribble.API.Services
+{
+    // Per-connection sliding window on chat messages; going over it starts a cooldown
+    public class ChatRateLimiter(IOptions<ChatOptions> options)
+    {
+        private readonly ChatOptions _options = options.Value;
+        private readonly ConcurrentDictionary<string, Sender> _senders = new();
+
+        private class Sender
+        {
+            public Queue<DateTime> SentAt { get; } = new();
+            public DateTime CooldownEndsAt { get; set; }
+        }
+
+        // False while the connection is cooling down (until cooldownEndsAt)
+        public bool TryAcquire(string connectionId, out DateTime cooldownEndsAt)
+        {
+            var now = DateTime.UtcNow;
+            var sender = _senders.GetOrAdd(connectionId, _ => new Sender());
+
+            lock (sender)
+            {
+                cooldownEndsAt = sender.CooldownEndsAt;
+                if (now < sender.CooldownEndsAt) return false;
+
+                var windowStart = now.AddSeconds(-_options.WindowSeconds);
+                while (sender.SentAt.Count > 0 && sender.SentAt.Peek() <= windowStart)
+                {
+                    sender.SentAt.Dequeue();
+                }
+
+                if (sender.SentAt.Count >= _options.MessagesPerWindow)
+                {
+                    sender.SentAt.Clear();
+                    sender.CooldownEndsAt = now.AddSeconds(_options.CooldownSeconds);
+                    cooldownEndsAt = sender.CooldownEndsAt;
+                    return false;
+                }
+
+                sender.SentAt.Enqueue(now);
+                return true;
+            }
+        }
+
+        public void Forget(string connectionId)
+        {
+            _senders.TryRemove(connectionId, out _);
+        }
+    }
+}
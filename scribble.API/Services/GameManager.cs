@@ -1,6 +1,10 @@
 ﻿using Microsoft.AspNetCore.Mvc.Diagnostics;
+using Microsoft.Extensions.Options;
 using scribble.API.Models;
 using System.Collections.Concurrent;
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
 
 namespace scribble.API.Services
 {
@@ -8,14 +12,35 @@ namespace scribble.API.Services
     {
         private readonly ConcurrentDictionary<string, GameRoom> _rooms = new();
 
-        private readonly Random _random = new();
+        private readonly int _chatHistoryLimit;
 
-        public GameRoom CreateRoom(string roomCode)
+        // Every correct guess earns the base points plus the seconds left on the clock
+        private const int GuessPoints = 100;
+
+        // Extra points for the first guessers, shrinking with each place; later guessers get none
+        private static readonly int[] GuessOrderBonus = { 60, 40, 20 };
+
+        // The drawer earns this for each correct guess, plus half of that guesser's time bonus
+        private const int DrawerPointsPerGuess = 50;
+
+        // Shorter words are only blocked when spelled exactly, since a typo away is usually another word ("cat" for "car")
+        private const int MinTypoBlockLength = 5;
+
+        // A round's drawing log takes no more points than this; every late joiner replays all of it
+        private const int MaxDrawingPoints = 50_000;
+
+        public GameManager(IOptions<ChatOptions> chatOptions)
+        {
+            _chatHistoryLimit = chatOptions.Value.HistoryLimit;
+        }
+
+        public GameRoom CreateRoom(string roomCode, bool isPublic = false)
         {
             var room = new GameRoom
             {
                 RoomCode = roomCode.ToUpper(), // Always uppercase for consistency
-                State = GameState.Waiting
+                State = GameState.Waiting,
+                IsPublic = isPublic
             };
 
             _rooms.TryAdd(room.RoomCode, room);
@@ -34,117 +59,576 @@ namespace scribble.API.Services
             return _rooms.TryRemove(roomCode.ToUpper(), out _);
         }
 
-        public Player? AddPlayer(string roomCode, string connectionId, string username)
+        public Player? AddPlayer(string roomCode, string connectionId, string username, string? sessionToken = null,
+            bool asSpectator = false)
         {
             var room = GetRoom(roomCode);
             if (room == null) return null;
 
-            var player = room.Players.FirstOrDefault(p => p.Username.Equals(username, StringComparison.OrdinalIgnoreCase));
-
-            if (player != null)
+            // Players come and go on hub threads while the round timer and room browser read the list
+            lock (room)
             {
+                // A saved session token reclaims the same seat from a new connection
+                var player = FindPlayerBySession(roomCode, sessionToken);
 
-                player.ConnectionId = connectionId;
+                if (player != null)
+                {
+                    player.ConnectionId = connectionId;
+                    player.IsConnected = true;
+                    player.DisconnectedAt = null;
 
+                    if (player.IsDrawing)
+                    {
+                        room.CurrentDrawerId = connectionId;
+                    }
 
-                if (player.IsDrawing)
-                {
-                    room.CurrentDrawerId = connectionId;
+                    return player;
                 }
 
+                // Without the token a taken name belongs to someone else
+                if (IsUsernameTaken(roomCode, username)) return null;
+
+                // Create new player
+                player = new Player
+                {
+                    ConnectionId = connectionId,
+                    SessionToken = Convert.ToHexString(RandomNumberGenerator.GetBytes(16)),
+                    Username = username,
+                    Score = 0,
+                    IsDrawing = false,
+                    IsHost = room.Players.Count == 0, // First player is host
+                    IsSpectator = asSpectator
+                };
+
+                // Add to room's player list
+                room.Players.Add(player);
+                JoinSmallestTeam(room, player);
+
                 return player;
             }
+        }
+
+        public Player? FindPlayerBySession(string roomCode, string? sessionToken)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || string.IsNullOrEmpty(sessionToken)) return null;
+
+            return room.Players.FirstOrDefault(p => p.SessionToken == sessionToken);
+        }
+
+        public bool IsBanned(string roomCode, string username, string? sessionToken)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            return room.BannedNames.Contains(username)
+                || (!string.IsNullOrEmpty(sessionToken) && room.BannedTokens.Contains(sessionToken));
+        }
+
+        public void BanPlayer(string roomCode, Player player)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return;
+
+            room.BannedTokens.Add(player.SessionToken);
+            room.BannedNames.Add(player.Username);
+        }
+
+        // Records a vote to kick target. False if the voter already voted; needed is a majority of everyone else
+        public bool TryAddKickVote(string roomCode, Player voter, Player target, out int votes, out int needed)
+        {
+            votes = 0;
+            needed = 0;
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                needed = KickVotesNeeded(room, target);
+
+                if (!room.KickVotes.TryGetValue(target.SessionToken, out var voters))
+                {
+                    voters = new HashSet<string>();
+                    room.KickVotes[target.SessionToken] = voters;
+                }
+
+                var added = voters.Add(voter.SessionToken);
+                votes = CountKickVotes(room, voters);
+                return added;
+            }
+        }
 
-            // Create new player
-            player = new Player
+        // Targets whose votes already make a majority, which can happen once someone leaves and the majority shrinks
+        public List<Player> GetVotedOutPlayers(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return new List<Player>();
+
+            lock (room)
             {
-                ConnectionId = connectionId,
-                Username = username,
-                Score = 0,
-                IsDrawing = false,
-                IsHost = room.Players.Count == 0 // First player is host
-            };
+                if (GetVoters(room).Count < RoomSettings.MinPlayersForVoteKick) return new List<Player>();
 
-            // Add to room's player list
-            room.Players.Add(player);
+                return room.Players
+                    .Where(p => room.KickVotes.TryGetValue(p.SessionToken, out var voters)
+                        && CountKickVotes(room, voters) >= KickVotesNeeded(room, p))
+                    .ToList();
+            }
+        }
 
-            return player;
+        // Only connected players in the game take part in a vote-kick
+        public List<Player> GetVoters(GameRoom room)
+        {
+            return room.ActivePlayers.Where(p => p.IsConnected).ToList();
         }
 
+        private int KickVotesNeeded(GameRoom room, Player target)
+        {
+            return GetVoters(room).Count(p => p != target) / 2 + 1;
+        }
 
-        public bool RemovePlayer(string roomCode, string connectionId)
+        private int CountKickVotes(GameRoom room, HashSet<string> voters)
+        {
+            return GetVoters(room).Count(p => voters.Contains(p.SessionToken));
+        }
+
+        public bool IsUsernameTaken(string roomCode, string username)
         {
             var room = GetRoom(roomCode);
             if (room == null) return false;
 
-            // Find the player
-            var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
-            if (player == null) return false;
+            return room.Players.Any(p => p.Username.Equals(username, StringComparison.OrdinalIgnoreCase));
+        }
 
-            // Remove from list
-            room.Players.Remove(player);
+        // Keeps the player's seat, score and turn until they reconnect or the grace period runs out
+        public Player? MarkDisconnected(string roomCode, string connectionId)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return null;
 
-            // If the leaving player was host, assign next host
-            if (player.IsHost && room.Players.Count > 0)
+            lock (room)
             {
-                room.Players[0].IsHost = true;
+                var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+                if (player == null) return null;
+
+                player.IsConnected = false;
+                player.DisconnectedAt = DateTime.UtcNow;
+                return player;
             }
+        }
+
+        public List<Player> GetExpiredDisconnects(string roomCode, TimeSpan gracePeriod)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return new List<Player>();
 
-            // If room is empty, delete it
-            if (room.Players.Count == 0)
+            lock (room)
             {
-                RemoveRoom(roomCode);
+                var cutoff = DateTime.UtcNow - gracePeriod;
+                return room.Players.Where(p => !p.IsConnected && p.DisconnectedAt <= cutoff).ToList();
             }
+        }
 
-            return true;
+        public bool RemovePlayer(string roomCode, string connectionId)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                // Find the player
+                var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+                if (player == null) return false;
+
+                // Remove from list
+                room.Players.Remove(player);
+
+                // Votes against or by the player no longer count
+                room.KickVotes.Remove(player.SessionToken);
+                foreach (var voters in room.KickVotes.Values)
+                {
+                    voters.Remove(player.SessionToken);
+                }
+
+                // If the leaving player was host, assign next host (a player before a spectator)
+                if (player.IsHost && room.Players.Count > 0)
+                {
+                    (room.Players.FirstOrDefault(p => !p.IsSpectator) ?? room.Players[0]).IsHost = true;
+                }
+
+                // If room is empty, delete it
+                if (room.Players.Count == 0)
+                {
+                    RemoveRoom(roomCode);
+                }
+
+                return true;
+            }
         }
 
         public void StartNewRound(string roomCode)
         {
             var room = GetRoom(roomCode);
-            if (room == null || room.Players.Count == 0) return;
+            if (room == null) return;
+
+            // Spectators are never in the drawing rotation
+            var players = room.ActivePlayers;
+            if (players.Count == 0) return;
 
             // 1. Reset all players
             foreach (var player in room.Players)
             {
                 player.HasGuessedCorrectly = false;
                 player.IsDrawing = false;
+                player.RoundPoints = 0;
             }
 
-            // 2. Determine index of current drawer (if any)
-            var currentDrawerIndex = room.Players.FindIndex(p => p.ConnectionId == room.CurrentDrawerId);
+            // 2. Determine index of current drawer (-1 if none or the drawer left)
+            var currentDrawerIndex = players.FindIndex(p => p.ConnectionId == room.CurrentDrawerId);
 
-            // 3. Select next drawer safely
-            int nextDrawerIndex;
-            if (currentDrawerIndex == -1)
-            {
-                // No current drawer or drawer left: start with first player
-                nextDrawerIndex = 0;
-            }
-            else
+            // 3. Rotate to the next player who hasn't drawn this round
+            var nextDrawer = PickNextDrawer(room, players, currentDrawerIndex);
+
+            // Everyone has had a turn (or the game is just starting): begin the next round
+            if (nextDrawer == null || room.RoundNumber == 0)
             {
-                // Rotate to next player
-                nextDrawerIndex = (currentDrawerIndex + 1) % room.Players.Count;
+                foreach (var player in room.Players)
+                {
+                    player.HasDrawnThisRound = false;
+                }
+                room.RoundNumber++;
+                nextDrawer ??= PickNextDrawer(room, players, currentDrawerIndex) ?? players[(currentDrawerIndex + 1) % players.Count];
             }
 
-            var nextDrawer = room.Players[nextDrawerIndex];
             room.CurrentDrawerId = nextDrawer.ConnectionId;
             nextDrawer.IsDrawing = true;
+            nextDrawer.HasDrawnThisRound = true;
+            nextDrawer.TurnsDrawn++;
+
+            // 4. Offer the drawer a few words; the secret word is set once they pick
+            room.WordChoices = PickWordChoices(room);
+            room.CurrentWord = string.Empty;
+            room.WordChoiceEndsAt = DateTime.UtcNow.AddSeconds(room.WordChoiceSeconds);
+
+            // 5. Start the round with an empty canvas
+            ClearDrawingLog(roomCode);
+
+            // 6. Update round info
+            room.State = GameState.ChoosingWord;
+        }
+
+        // The next player after the last drawer who hasn't drawn this round. With teams, the teams take turns
+        private static Player? PickNextDrawer(GameRoom room, List<Player> players, int currentDrawerIndex)
+        {
+            var waiting = Enumerable.Range(1, players.Count)
+                .Select(offset => players[(currentDrawerIndex + offset + players.Count) % players.Count])
+                .Where(p => !p.HasDrawnThisRound)
+                .ToList();
+
+            if (room.TeamCount == 0) return waiting.FirstOrDefault();
+
+            var lastTeam = currentDrawerIndex >= 0 ? players[currentDrawerIndex].Team ?? -1 : -1;
+            return Enumerable.Range(1, room.TeamCount)
+                .Select(offset => (lastTeam + offset) % room.TeamCount)
+                .Select(team => waiting.FirstOrDefault(p => p.Team == team))
+                .FirstOrDefault(p => p != null);
+        }
+
+        // Only the drawer's pick or the timer's random pick (whichever comes first) starts the round
+        public bool TryChooseWord(string roomCode, string? word)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
 
-            // 4. Select a new secret word
-            if (room.WordPool != null && room.WordPool.Count > 0)
+            lock (room)
             {
-                room.CurrentWord = room.WordPool[_random.Next(room.WordPool.Count)];
+                if (room.State != GameState.ChoosingWord || room.WordChoices.Count == 0) return false;
+
+                // No word means the drawer ran out of time
+                var chosen = word == null
+                    ? room.WordChoices[Random.Shared.Next(room.WordChoices.Count)]
+                    : room.WordChoices.FirstOrDefault(w => w.Equals(word, StringComparison.OrdinalIgnoreCase));
+                if (chosen == null) return false;
+
+                room.CurrentWord = chosen;
+                room.RevealedLetters.Clear();
+                room.WordChoices = new();
+                room.RoundStartTime = DateTime.UtcNow;
+                room.State = GameState.Drawing;
+                return true;
+            }
+        }
+
+        private List<string> PickWordChoices(GameRoom room)
+        {
+            var choices = room.WordPool
+                .Distinct(StringComparer.OrdinalIgnoreCase)
+                .OrderBy(_ => Random.Shared.Next())
+                .Take(3)
+                .ToList();
+
+            if (choices.Count == 0)
+            {
+                choices.Add("apples"); // Fallback
+            }
+
+            return choices;
+        }
+
+        // A running game can't be restarted from under the players
+        public bool TryStartGame(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || room.ActivePlayers.Count == 0) return false;
+
+            lock (room)
+            {
+                if (room.State != GameState.Waiting) return false;
+
+                room.RoundNumber = 0;
+                StartNewRound(roomCode);
+                return true;
+            }
+        }
+
+        // Only the first caller wins when the timer and the hub both try to end a round
+        public bool TryEndRound(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                // A drawer can also leave before picking a word
+                if (room.State != GameState.Drawing && room.State != GameState.ChoosingWord) return false;
+
+                room.State = GameState.RoundEnd;
+                room.NextRoundAt = DateTime.UtcNow.AddSeconds(room.IntermissionSeconds);
+                return true;
+            }
+        }
+
+        public RoomSettings GetSettings(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return new RoomSettings();
+
+            return new RoomSettings
+            {
+                DrawTimeSeconds = room.RoundDurationSeconds,
+                Rounds = room.TotalRounds,
+                MaxPlayers = room.MaxPlayers,
+                HintCount = room.HintCount,
+                WordDifficulty = room.WordDifficulty,
+                CustomWordsOnly = room.CustomWordsOnly,
+                IsPublic = room.IsPublic,
+                TeamCount = room.TeamCount,
+                CustomWordCount = room.CustomWords.Count
+            };
+        }
+
+        // Settings only change in the waiting room, so a running game never sees them move
+        public bool TryUpdateSettings(string roomCode, RoomSettings settings, out string? error)
+        {
+            error = "Room not found";
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                if (room.State != GameState.Waiting)
+                {
+                    error = "Settings can only be changed before the game starts";
+                    return false;
+                }
+
+                error = settings.Validate(room.ActivePlayers.Count, room.CustomWords.Count);
+                if (error != null) return false;
+
+                room.RoundDurationSeconds = settings.DrawTimeSeconds;
+                room.TotalRounds = settings.Rounds;
+                room.MaxPlayers = settings.MaxPlayers;
+                room.HintCount = settings.HintCount;
+                room.IsPublic = settings.IsPublic;
+                room.WordDifficulty = settings.WordDifficulty;
+                room.CustomWordsOnly = settings.CustomWordsOnly;
+                RebuildWordPool(room);
+
+                if (settings.TeamCount != room.TeamCount)
+                {
+                    room.TeamCount = settings.TeamCount;
+                    room.TeamScores = Enumerable.Repeat(0, room.TeamCount).ToList();
+                    DealTeams(room, room.ActivePlayers);
+                }
+                return true;
+            }
+        }
+
+        // Replaces the host's custom words; invalid ones are handed back instead of being kept
+        public bool TryUpdateCustomWords(string roomCode, IEnumerable<string> words, out List<string> rejected, out string? error)
+        {
+            rejected = new();
+            error = "Room not found";
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                if (room.State != GameState.Waiting)
+                {
+                    error = "Words can only be changed before the game starts";
+                    return false;
+                }
+
+                var cleaned = WordBank.CleanCustomWords(words, out rejected);
+                if (cleaned.Count > WordBank.MaxCustomWords)
+                {
+                    error = $"Custom lists can have at most {WordBank.MaxCustomWords} words";
+                    return false;
+                }
+
+                error = null;
+                room.CustomWords = cleaned;
+
+                // Too few words left to play with custom words alone
+                if (room.CustomWords.Count < RoomSettings.MinCustomWordsOnly)
+                {
+                    room.CustomWordsOnly = false;
+                }
+
+                RebuildWordPool(room);
+                return true;
+            }
+        }
+
+        private static void RebuildWordPool(GameRoom room)
+        {
+            var pool = room.CustomWordsOnly ? new List<string>() : WordBank.GetWords(room.WordDifficulty);
+            pool.AddRange(room.CustomWords);
+            room.WordPool = pool.Distinct(StringComparer.OrdinalIgnoreCase).ToList();
+        }
+
+        // The game is over once every player has drawn in the last round
+        public bool HasTurnsLeft(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            return room.RoundNumber < room.TotalRounds || room.ActivePlayers.Any(p => !p.HasDrawnThisRound);
+        }
+
+        // No turns left, or too few players left to go on
+        public bool IsLastTurn(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return true;
+
+            return !HasTurnsLeft(roomCode) || room.ActivePlayers.Count < RoomSettings.MinPlayers;
+        }
+
+        public bool TryEndGame(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                if (room.State != GameState.RoundEnd || !IsLastTurn(roomCode)) return false;
+
+                room.State = GameState.GameEnd;
+                return true;
+            }
+        }
+
+        // Back to the waiting room with a clean slate, keeping the players
+        public bool TryResetGame(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                if (room.State != GameState.GameEnd) return false;
+
+                foreach (var player in room.Players)
+                {
+                    player.Score = 0;
+                    player.RoundPoints = 0;
+                    player.IsDrawing = false;
+                    player.HasGuessedCorrectly = false;
+                    player.HasDrawnThisRound = false;
+                    player.WordsGuessed = 0;
+                    player.FastestGuessSeconds = null;
+                    player.TurnsDrawn = 0;
+                    player.DrawingsGuessed = 0;
+                }
+
+                room.TeamScores = Enumerable.Repeat(0, room.TeamCount).ToList();
+                room.RoundNumber = 0;
+                room.CurrentDrawerId = string.Empty;
+                room.CurrentWord = string.Empty;
+                room.WordChoices = new();
+                room.RevealedLetters.Clear();
+                ClearDrawingLog(roomCode);
+                room.State = GameState.Waiting;
+                return true;
             }
-            else
+        }
+
+        public bool TryStartNextRound(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || room.ActivePlayers.Count == 0) return false;
+
+            lock (room)
             {
-                room.CurrentWord = "apples"; // Fallback
+                if (room.State != GameState.RoundEnd) return false;
+
+                StartNewRound(roomCode);
+                return true;
             }
+        }
 
-            // 5. Update round info
-            room.RoundStartTime = DateTime.UtcNow;
-            room.RoundNumber++;
-            room.State = GameState.Drawing;
+        // Between rounds a player can sit out and watch, or a spectator can take a free seat
+        public bool TrySetSpectating(string roomCode, string connectionId, bool spectate, out string? error)
+        {
+            error = "Room not found";
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+                if (player == null)
+                {
+                    error = "Player not found";
+                    return false;
+                }
+
+                if (room.State != GameState.Waiting && room.State != GameState.RoundEnd && room.State != GameState.GameEnd)
+                {
+                    error = "You can only switch between rounds";
+                    return false;
+                }
+
+                if (player.IsSpectator == spectate)
+                {
+                    error = spectate ? "You are already spectating" : "You are already playing";
+                    return false;
+                }
+
+                if (!spectate && room.ActivePlayers.Count >= room.MaxPlayers)
+                {
+                    error = "There are no free player slots";
+                    return false;
+                }
+
+                error = null;
+                player.IsSpectator = spectate;
+                player.IsDrawing = false;
+                player.HasGuessedCorrectly = false;
+                JoinSmallestTeam(room, player);
+                return true;
+            }
         }
 
         public bool CheckGuess(string roomCode, string connectionId, string guess)
@@ -153,18 +637,25 @@ namespace scribble.API.Services
             var room = GetRoom(roomCode);
             if (room == null) return false;
 
-            //Find player who is guessing with the connection id 
-            var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+            // Place, points and the flag change together, so two guesses at once can't share a place
+            lock (room)
+            {
+                //Find player who is guessing with the connection id 
+                var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
 
-            // Can't guess if:
-            // - Player not found
-            // - Already guessed correctly
-            // - Is the drawer
-            if (player == null || player.HasGuessedCorrectly || player.IsDrawing) return false;
+                // Nothing to guess until the drawer has picked a word, or once the round is over
+                if (room.State != GameState.Drawing) return false;
+
+                // Can't guess if:
+                // - Player not found
+                // - Already guessed correctly
+                // - Is the drawer
+                // - Is only watching
+                if (player == null || player.HasGuessedCorrectly || player.IsDrawing || player.IsSpectator) return false;
+
+                // Check if the guess is correct
+                if (!string.Equals(guess.Trim(), room.CurrentWord, StringComparison.OrdinalIgnoreCase)) return false;
 
-            // Check if the guess is correct
-            if (string.Equals(guess.Trim(), room.CurrentWord, StringComparison.OrdinalIgnoreCase))
-            {
                 // After the guess is correct
 
                 player.HasGuessedCorrectly = true;
@@ -173,13 +664,307 @@ namespace scribble.API.Services
                 var elapsedSeconds = (DateTime.UtcNow - room.RoundStartTime).TotalSeconds;
                 var timeBonus = Math.Max(0, room.RoundDurationSeconds - (int)elapsedSeconds);
 
-                // Base score + time bonus
-                player.Score += 100 + timeBonus;
+                // Base score + time bonus + a bonus for guessing before the others
+                var place = room.Players.Count(p => p.HasGuessedCorrectly);
+                var orderBonus = place <= GuessOrderBonus.Length ? GuessOrderBonus[place - 1] : 0;
+                AwardPoints(room, player, GuessPoints + timeBonus + orderBonus);
+
+                // Stats for the final results
+                player.WordsGuessed++;
+                player.FastestGuessSeconds = Math.Min(player.FastestGuessSeconds ?? double.MaxValue, Math.Round(elapsedSeconds, 1));
+
+                // The drawer scores for every guess, more for quick ones
+                var drawer = room.Players.FirstOrDefault(p => p.IsDrawing);
+                if (drawer != null)
+                {
+                    drawer.DrawingsGuessed++;
+                    AwardPoints(room, drawer, DrawerPointsPerGuess + timeBonus / 2);
+                }
+
+                return true;
+            }
+        }
+
+        // Teams are only rearranged in the waiting room, so a game's team totals stay meaningful
+        public bool TryShuffleTeams(string roomCode, out string? error)
+        {
+            error = "Room not found";
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                error = CheckTeamsEditable(room);
+                if (error != null) return false;
+
+                DealTeams(room, room.ActivePlayers.OrderBy(_ => Random.Shared.Next()));
+                return true;
+            }
+        }
+
+        public bool TryAssignTeam(string roomCode, string connectionId, int team, out string? error)
+        {
+            error = "Room not found";
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                error = CheckTeamsEditable(room);
+                if (error != null) return false;
+
+                var player = room.ActivePlayers.FirstOrDefault(p => p.ConnectionId == connectionId);
+                if (player == null || team < 0 || team >= room.TeamCount)
+                {
+                    error = "Can't move that player to that team";
+                    return false;
+                }
+
+                player.Team = team;
+                return true;
+            }
+        }
+
+        private static string? CheckTeamsEditable(GameRoom room)
+        {
+            if (room.TeamCount == 0) return "Teams are turned off";
+            if (room.State != GameState.Waiting) return "Teams can only be changed before the game starts";
+            return null;
+        }
+
+        // Deals players out to the teams in turn, so team sizes differ by at most one
+        private static void DealTeams(GameRoom room, IEnumerable<Player> players)
+        {
+            var index = 0;
+            foreach (var player in players)
+            {
+                player.Team = room.TeamCount > 0 ? index++ % room.TeamCount : null;
+            }
+        }
+
+        // Late joiners (and spectators who start playing) go to the smallest team
+        private static void JoinSmallestTeam(GameRoom room, Player player)
+        {
+            if (room.TeamCount == 0 || player.IsSpectator)
+            {
+                player.Team = null;
+                return;
+            }
+
+            player.Team = Enumerable.Range(0, room.TeamCount)
+                .OrderBy(team => room.Players.Count(p => p != player && !p.IsSpectator && p.Team == team))
+                .First();
+        }
+
+        // Points go to the player's total, this turn's breakdown and their team
+        private static void AwardPoints(GameRoom room, Player player, int points)
+        {
+            player.Score += points;
+            player.RoundPoints += points;
+
+            if (player.Team is int team && team < room.TeamScores.Count)
+            {
+                room.TeamScores[team] += points;
+            }
+        }
+
+        // Every team needs someone to draw for it
+        public bool HasEmptyTeam(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            return Enumerable.Range(0, room.TeamCount).Any(team => !room.ActivePlayers.Any(p => p.Team == team));
+        }
+
+        public List<TeamStanding> GetTeamStandings(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return new();
+
+            return room.TeamScores
+                .Select((score, team) => new TeamStanding { Team = team, Score = score })
+                .ToList();
+        }
+
+        // While the word is being drawn, the drawer and everyone who guessed it can talk among themselves
+        public bool IsInInnerCircle(string roomCode, string connectionId)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || room.State != GameState.Drawing) return false;
+
+            var player = room.Players.FirstOrDefault(p => p.ConnectionId == connectionId);
+            return player != null && (player.IsDrawing || player.HasGuessedCorrectly);
+        }
+
+        public List<string> GetInnerCircle(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return new();
+
+            return room.Players
+                .Where(p => p.IsDrawing || p.HasGuessedCorrectly)
+                .Select(p => p.ConnectionId)
+                .ToList();
+        }
+
+        // Every player but the drawer has guessed the word, so the turn can end early
+        public bool HaveAllGuessed(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || room.State != GameState.Drawing) return false;
+
+            return room.ActivePlayers
+                .Where(p => !p.IsDrawing)
+                .All(p => p.HasGuessedCorrectly);
+        }
+
+        // Near misses get a private "you're close" instead of being shown to everyone
+        public bool IsCloseGuess(string roomCode, string guess)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || room.State != GameState.Drawing || string.IsNullOrEmpty(room.CurrentWord)) return false;
+
+            return IsNearMiss(NormalizeText(guess), NormalizeText(room.CurrentWord));
+        }
+
+        // Whether a message from someone who knows the word would give it away
+        public bool RevealsWord(string roomCode, string message)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null || room.State != GameState.Drawing || string.IsNullOrEmpty(room.CurrentWord)) return false;
+
+            var wordTokens = Tokenize(NormalizeText(room.CurrentWord));
+            var wordLetters = string.Concat(wordTokens);
+            var tokens = Tokenize(NormalizeText(message));
+
+            // Each word of the message, and as many words together as the word has ("ice cream")
+            var candidates = new List<string>(tokens);
+            for (var i = 0; wordTokens.Count > 1 && i + wordTokens.Count <= tokens.Count; i++)
+            {
+                candidates.Add(string.Concat(tokens.Skip(i).Take(wordTokens.Count)));
+            }
+
+            // Spelled out a letter at a time ("c a r", "e-l-e-p-h-a-n-t")
+            for (var i = 0; i < tokens.Count; i++)
+            {
+                var run = i;
+                while (run < tokens.Count && tokens[run].Length == 1) run++;
+                if (run - i < 2) continue;
+
+                candidates.Add(string.Concat(tokens.Skip(i).Take(run - i)));
+                i = run;
+            }
+
+            return candidates.Any(c => IsSameWord(c, wordLetters)
+                || (wordLetters.Length >= MinTypoBlockLength && Math.Abs(c.Length - wordLetters.Length) <= 1 && IsNearMiss(c, wordLetters)));
+        }
+
+        // The word itself or its singular/plural
+        private static bool IsSameWord(string attempt, string word)
+        {
+            return attempt == word || attempt == word + "s" || attempt == word + "es" || word == attempt + "s" || word == attempt + "es";
+        }
+
+        // Accent-insensitive match, singular/plural, or a typo or two away
+        private static bool IsNearMiss(string attempt, string word)
+        {
+            if (attempt.Length == 0 || word.Length == 0) return false;
+            if (IsSameWord(attempt, word)) return true;
+
+            // One typo for short words, two for longer ones
+            var allowedEdits = word.Length <= 5 ? 1 : 2;
+            return Math.Abs(attempt.Length - word.Length) <= allowedEdits && EditDistance(attempt, word) <= allowedEdits;
+        }
+
+        // Lower case, accents stripped, whitespace collapsed
+        private static string NormalizeText(string text)
+        {
+            var builder = new StringBuilder();
+            foreach (var c in text.Trim().ToLowerInvariant().Normalize(NormalizationForm.FormD))
+            {
+                if (CharUnicodeInfo.GetUnicodeCategory(c) == UnicodeCategory.NonSpacingMark) continue;
+                if (char.IsWhiteSpace(c))
+                {
+                    if (builder.Length > 0 && builder[^1] != ' ') builder.Append(' ');
+                    continue;
+                }
+                builder.Append(c);
+            }
+            return builder.ToString().TrimEnd().Normalize(NormalizationForm.FormC);
+        }
+
+        // Runs of letters and digits; spaces and punctuation split them
+        private static List<string> Tokenize(string text)
+        {
+            var separators = text.Where(c => !char.IsLetterOrDigit(c)).Distinct().ToArray();
+            return text.Split(separators, StringSplitOptions.RemoveEmptyEntries).ToList();
+        }
+
+        // Levenshtein distance, two rows at a time
+        private static int EditDistance(string a, string b)
+        {
+            var previous = new int[b.Length + 1];
+            var current = new int[b.Length + 1];
+            for (var j = 0; j <= b.Length; j++) previous[j] = j;
+
+            for (var i = 1; i <= a.Length; i++)
+            {
+                current[0] = i;
+                for (var j = 1; j <= b.Length; j++)
+                {
+                    var cost = a[i - 1] == b[j - 1] ? 0 : 1;
+                    current[j] = Math.Min(Math.Min(current[j - 1] + 1, previous[j] + 1), previous[j - 1] + cost);
+                }
+                (previous, current) = (current, previous);
+            }
+
+            return previous[b.Length];
+        }
+
+        // False once the log is full, until the canvas is cleared
+        public bool RecordDrawing(string roomCode, DrawingData drawingData)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
 
+            var points = Math.Max(1, (drawingData.Points?.Count ?? 0) / 2);
+
+            lock (room.DrawingLog)
+            {
+                if (room.DrawingPointCount + points > MaxDrawingPoints) return false;
+
+                room.DrawingPointCount += points;
+                drawingData.Sequence = ++room.DrawingSequence;
+                room.DrawingLog.Add(drawingData);
                 return true;
             }
+        }
+
+        // The clear takes a sequence of its own, so a late joiner can tell whether their snapshot already includes it
+        public long ClearDrawingLog(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return 0;
 
-            return false;
+            lock (room.DrawingLog)
+            {
+                room.DrawingLog.Clear();
+                room.DrawingPointCount = 0;
+                return ++room.DrawingSequence;
+            }
+        }
+
+        // Copy of the drawing log (plus the last sequence in it), safe to send while strokes keep arriving
+        public (List<DrawingData> Log, long Sequence) GetDrawingSnapshot(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return (new List<DrawingData>(), 0);
+
+            lock (room.DrawingLog)
+            {
+                return (room.DrawingLog.ToList(), room.DrawingSequence);
+            }
         }
 
         public string GetMaskedWord(string roomCode)
@@ -187,14 +972,110 @@ namespace scribble.API.Services
             var room = GetRoom(roomCode);
             if (room == null) return "";
 
-            // Replace each character with underscore
-            return new string('_', room.CurrentWord.Length);
+            // Letters stay hidden until revealed as a hint; spaces and punctuation show the word's shape
+            lock (room)
+            {
+                var masked = room.CurrentWord
+                    .Select((c, i) => char.IsLetterOrDigit(c) && !room.RevealedLetters.Contains(i) ? '_' : c)
+                    .ToArray();
+                return new string(masked);
+            }
+        }
+
+        // Hints are spread evenly over the round, so the last stretch never gets a new one
+        public bool TryRevealHint(string roomCode)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return false;
+
+            lock (room)
+            {
+                if (room.State != GameState.Drawing) return false;
+
+                var hidden = room.CurrentWord
+                    .Select((c, i) => (c, i))
+                    .Where(x => char.IsLetterOrDigit(x.c) && !room.RevealedLetters.Contains(x.i))
+                    .Select(x => x.i)
+                    .ToList();
+                var letterCount = hidden.Count + room.RevealedLetters.Count;
+
+                // Short words get fewer hints
+                var totalHints = Math.Min(room.HintCount, letterCount / 2);
+                var elapsed = (DateTime.UtcNow - room.RoundStartTime).TotalSeconds;
+                var dueHints = Math.Min(totalHints, (int)(elapsed / room.RoundDurationSeconds * (totalHints + 1)));
+
+                if (hidden.Count == 0 || room.RevealedLetters.Count >= dueHints) return false;
+
+                room.RevealedLetters.Add(hidden[Random.Shared.Next(hidden.Count)]);
+                return true;
+            }
+        }
+
+        // Keeps only the most recent messages, so a long game doesn't grow without bound
+        public void AddChatMessage(string roomCode, ChatMessage message)
+        {
+            var room = GetRoom(roomCode);
+            if (room == null) return;
+
+            lock (room)
+            {
+                room.ChatHistory.Add(message);
+
+                var excess = room.ChatHistory.Count - _chatHistoryLimit;
+                if (excess > 0)
+                {
+                    room.ChatHistory.RemoveRange(0, excess);
+                }
+            }
         }
 
         public List<GameRoom> GetAllRooms()
         {
             return _rooms.Values.ToList();
         }
+
+        // Public rooms for the lobby's room browser, fullest first
+        public List<RoomSummary> GetPublicRooms()
+        {
+            var summaries = new List<RoomSummary>();
+            foreach (var room in _rooms.Values.Where(r => r.IsPublic))
+            {
+                lock (room)
+                {
+                    if (room.Players.Count == 0) continue;
+
+                    summaries.Add(new RoomSummary
+                    {
+                        RoomCode = room.RoomCode,
+                        HostName = room.Players.FirstOrDefault(p => p.IsHost)?.Username ?? string.Empty,
+                        PlayerCount = room.ActivePlayers.Count,
+                        MaxPlayers = room.MaxPlayers,
+                        RoundNumber = room.RoundNumber,
+                        TotalRounds = room.TotalRounds,
+                        State = room.State.ToString()
+                    });
+                }
+            }
+
+            return summaries
+                .OrderByDescending(r => r.PlayerCount)
+                .ThenBy(r => r.RoomCode)
+                .ToList();
+        }
+
+        // The fullest public room with a free seat and a game still to play, or null
+        public GameRoom? FindQuickPlayRoom(string username)
+        {
+            return _rooms.Values
+                .Where(r => r.IsPublic
+                    && r.State != GameState.GameEnd
+                    && r.Players.Count > 0
+                    && r.ActivePlayers.Count < r.MaxPlayers
+                    && !r.BannedNames.Contains(username)
+                    && !r.Players.Any(p => p.Username.Equals(username, StringComparison.OrdinalIgnoreCase)))
+                .OrderByDescending(r => r.ActivePlayers.Count)
+                .FirstOrDefault();
+        }
         public string GenerateRoomCode()
         {
             const string chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
@@ -202,7 +1083,7 @@ namespace scribble.API.Services
 
             for (int i = 0; i < 6; i++)
             {
-                code[i] = chars[_random.Next(chars.Length)];
+                code[i] = chars[Random.Shared.Next(chars.Length)];
             }
 
             return new string(code);
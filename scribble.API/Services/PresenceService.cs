@@ -0,0 +1,101 @@
+using Microsoft.AspNetCore.SignalR;
+using scribble.API.Hubs;
+using scribble.API.Models;
+
+namespace scribble.API.Services
+{
+    // Dropped connections and departures, shared by the hub and the round timer
+    public class PresenceService(GameManager gameManager, RoundService roundService, IHubContext<GameHub> hubContext,
+        ILogger<PresenceService> logger)
+    {
+        // How long a dropped player keeps their seat before they're removed
+        public static readonly TimeSpan ReconnectGracePeriod = TimeSpan.FromSeconds(30);
+
+        private readonly GameManager _gameManager = gameManager;
+        private readonly RoundService _roundService = roundService;
+        private readonly IHubContext<GameHub> _hubContext = hubContext;
+        private readonly ILogger<PresenceService> _logger = logger;
+
+        public async Task DisconnectAsync(string connectionId)
+        {
+            foreach (var room in _gameManager.GetAllRooms())
+            {
+                var player = _gameManager.MarkDisconnected(room.RoomCode, connectionId);
+                if (player == null) continue;
+
+                await _hubContext.Clients.Group(room.RoomCode).SendAsync("PlayersUpdated", room.PlayersSnapshot);
+                await _hubContext.Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", new ChatMessage
+                {
+                    Username = "System",
+                    Message = $"{player.Username} lost connection",
+                    IsSystemMessage = true
+                });
+
+                _logger.LogInformation($"{player.Username} disconnected from room {room.RoomCode}");
+
+                await KickVotedOutAsync(room);
+                return;
+            }
+        }
+
+        public async Task RemoveExpiredAsync(GameRoom room)
+        {
+            foreach (var player in _gameManager.GetExpiredDisconnects(room.RoomCode, ReconnectGracePeriod))
+            {
+                await RemovePlayerAsync(room, player);
+            }
+        }
+
+        // Sends the player back to the lobby with the reason, then removes them like any departure
+        public async Task KickAsync(GameRoom room, Player player, string reason, string announcement)
+        {
+            await _hubContext.Clients.Client(player.ConnectionId).SendAsync("Kicked", new { reason });
+            await _hubContext.Groups.RemoveFromGroupAsync(player.ConnectionId, room.RoomCode);
+            await RemovePlayerAsync(room, player, announcement);
+        }
+
+        public async Task RemovePlayerAsync(GameRoom room, Player player, string? announcement = null)
+        {
+            var wasDrawing = player.IsDrawing;
+
+            if (!_gameManager.RemovePlayer(room.RoomCode, player.ConnectionId)) return;
+
+            var systemMessage = new ChatMessage
+            {
+                Username = "System",
+                Message = announcement ?? $"{player.Username} left the game",
+                IsSystemMessage = true
+            };
+
+            await _hubContext.Clients.Group(room.RoomCode).SendAsync("PlayerLeft", new
+            {
+                players = room.PlayersSnapshot,
+                leftPlayer = player
+            });
+
+            await _hubContext.Clients.Group(room.RoomCode).SendAsync("ReceiveMessage", systemMessage);
+
+            // If drawer left, end the round; likewise if the guesser who left was the last one still guessing
+            if (room.Players.Count > 0 && (wasDrawing || (!player.IsSpectator && _gameManager.HaveAllGuessed(room.RoomCode))))
+            {
+                await _roundService.EndRoundAsync(room.RoomCode);
+            }
+
+            _logger.LogInformation($"{player.Username} left room {room.RoomCode}");
+
+            await KickVotedOutAsync(room);
+        }
+
+        // Fewer players means a smaller majority, so a pending vote-kick may now pass
+        private async Task KickVotedOutAsync(GameRoom room)
+        {
+            foreach (var target in _gameManager.GetVotedOutPlayers(room.RoomCode))
+            {
+                if (!room.Players.Contains(target)) continue;
+
+                await KickAsync(room, target, "You were voted out of the room", $"{target.Username} was voted out");
+                _logger.LogInformation($"{target.Username} was voted out of room {room.RoomCode}");
+            }
+        }
+    }
+}
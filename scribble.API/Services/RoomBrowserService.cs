@@ -0,0 +1,45 @@
+using System.Text.Json;
+using Microsoft.AspNetCore.SignalR;
+using scribble.API.Hubs;
+
+namespace scribble.API.Services
+{
+    // Pushes the public room list to lobby clients whenever it changes
+    public class RoomBrowserService(GameManager gameManager, IHubContext<GameHub> hubContext, ILogger<RoomBrowserService> logger)
+        : BackgroundService
+    {
+        // SignalR group of connections looking at the lobby (room codes are upper case, so this can't clash)
+        public const string LobbyGroup = "lobby";
+
+        private static readonly TimeSpan TickInterval = TimeSpan.FromSeconds(1);
+
+        private readonly GameManager _gameManager = gameManager;
+        private readonly IHubContext<GameHub> _hubContext = hubContext;
+        private readonly ILogger<RoomBrowserService> _logger = logger;
+
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            using var timer = new PeriodicTimer(TickInterval);
+            var lastSnapshot = string.Empty;
+
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                try
+                {
+                    var rooms = _gameManager.GetPublicRooms();
+
+                    // Only send when something a lobby client can see has changed
+                    var snapshot = JsonSerializer.Serialize(rooms);
+                    if (snapshot == lastSnapshot) continue;
+
+                    lastSnapshot = snapshot;
+                    await _hubContext.Clients.Group(LobbyGroup).SendAsync("PublicRooms", rooms, stoppingToken);
+                }
+                catch (Exception ex) when (ex is not OperationCanceledException)
+                {
+                    _logger.LogError(ex, "Room browser update failed");
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,179 @@
+using Microsoft.AspNetCore.SignalR;
+using scribble.API.Hubs;
+using scribble.API.Models;
+
+namespace scribble.API.Services
+{
+    // Round transitions and their broadcasts, shared by the hub and the round timer
+    public class RoundService(GameManager gameManager, IHubContext<GameHub> hubContext, ILogger<RoundService> logger)
+    {
+        private readonly GameManager _gameManager = gameManager;
+        private readonly IHubContext<GameHub> _hubContext = hubContext;
+        private readonly ILogger<RoundService> _logger = logger;
+
+        public async Task StartFirstRoundAsync(string roomCode)
+        {
+            var room = _gameManager.GetRoom(roomCode);
+            if (room == null) return;
+
+            if (!_gameManager.TryStartGame(roomCode)) return;
+
+            await BroadcastWordChoiceAsync(room);
+            _logger.LogInformation($"Game started in room {roomCode}");
+        }
+
+        public async Task EndRoundAsync(string roomCode)
+        {
+            var room = _gameManager.GetRoom(roomCode);
+            if (room == null) return;
+
+            // The timer, the last correct guess and a leaving drawer can all race to end the round
+            if (!_gameManager.TryEndRound(roomCode)) return;
+
+            // Show results to everyone
+            await _hubContext.Clients.Group(roomCode).SendAsync("RoundEnded", new
+            {
+                word = room.CurrentWord,
+                players = room.ActivePlayers.OrderByDescending(p => p.Score).ToList(),
+                teams = _gameManager.GetTeamStandings(roomCode),
+                isLastTurn = _gameManager.IsLastTurn(roomCode),
+                nextRoundAt = ToUnixMilliseconds(room.NextRoundAt),
+                serverTime = ToUnixMilliseconds(DateTime.UtcNow)
+            });
+
+            _logger.LogInformation($"Round ended in room {roomCode}");
+        }
+
+        public async Task NextRoundAsync(string roomCode)
+        {
+            var room = _gameManager.GetRoom(roomCode);
+            if (room == null) return;
+
+            // After the last turn the game ends instead
+            if (_gameManager.TryEndGame(roomCode))
+            {
+                await _hubContext.Clients.Group(roomCode).SendAsync("GameEnded", new
+                {
+                    players = room.ActivePlayers.OrderByDescending(p => p.Score).ToList(),
+                    teams = _gameManager.GetTeamStandings(roomCode)
+                });
+
+                _logger.LogInformation($"Game ended in room {roomCode}");
+                return;
+            }
+
+            if (!_gameManager.TryStartNextRound(roomCode)) return;
+
+            // Clear everyone's canvas
+            await _hubContext.Clients.Group(roomCode).SendAsync("ClearCanvas", new { sequence = room.DrawingSequence });
+
+            await BroadcastWordChoiceAsync(room);
+        }
+
+        public async Task RevealHintAsync(string roomCode)
+        {
+            var room = _gameManager.GetRoom(roomCode);
+            if (room == null) return;
+
+            if (!_gameManager.TryRevealHint(roomCode)) return;
+
+            // The drawer already knows the word
+            await _hubContext.Clients.GroupExcept(roomCode, room.CurrentDrawerId).SendAsync("HintRevealed", new
+            {
+                maskedWord = _gameManager.GetMaskedWord(roomCode)
+            });
+        }
+
+        public async Task ResetGameAsync(string roomCode)
+        {
+            var room = _gameManager.GetRoom(roomCode);
+            if (room == null) return;
+
+            if (!_gameManager.TryResetGame(roomCode)) return;
+
+            await _hubContext.Clients.Group(roomCode).SendAsync("ClearCanvas", new { sequence = room.DrawingSequence });
+            await _hubContext.Clients.Group(roomCode).SendAsync("GameReset", new
+            {
+                players = room.PlayersSnapshot,
+                teams = _gameManager.GetTeamStandings(roomCode)
+            });
+
+            _logger.LogInformation($"Game reset in room {roomCode}");
+        }
+
+        // A null word picks one of the choices at random (the drawer ran out of time)
+        public async Task ChooseWordAsync(string roomCode, string? word)
+        {
+            var room = _gameManager.GetRoom(roomCode);
+            if (room == null) return;
+
+            if (!_gameManager.TryChooseWord(roomCode, word)) return;
+
+            await BroadcastRoundStartAsync(room);
+        }
+
+        private async Task BroadcastWordChoiceAsync(GameRoom room)
+        {
+            var drawer = room.Players.First(p => p.IsDrawing);
+            var choiceEndsAt = ToUnixMilliseconds(room.WordChoiceEndsAt);
+            var serverTime = ToUnixMilliseconds(DateTime.UtcNow);
+
+            // Only the drawer gets to see the words
+            await _hubContext.Clients.Client(drawer.ConnectionId).SendAsync("WordChoices", new
+            {
+                words = room.WordChoices,
+                roundNumber = room.RoundNumber,
+                totalRounds = room.TotalRounds,
+                choiceEndsAt,
+                serverTime
+            });
+
+            await _hubContext.Clients.GroupExcept(room.RoomCode, drawer.ConnectionId).SendAsync("DrawerChoosingWord", new
+            {
+                drawer = drawer.Username,
+                roundNumber = room.RoundNumber,
+                totalRounds = room.TotalRounds,
+                choiceEndsAt,
+                serverTime
+            });
+        }
+
+        private async Task BroadcastRoundStartAsync(GameRoom room)
+        {
+            var drawer = room.Players.First(p => p.IsDrawing);
+            var roundEndsAt = ToUnixMilliseconds(room.RoundEndsAt);
+            var serverTime = ToUnixMilliseconds(DateTime.UtcNow);
+
+            // Notify drawer
+            await _hubContext.Clients.Client(drawer.ConnectionId).SendAsync("YourTurnToDraw", new
+            {
+                word = room.CurrentWord,
+                roundDuration = room.RoundDurationSeconds,
+                roundNumber = room.RoundNumber,
+                totalRounds = room.TotalRounds,
+                roundEndsAt,
+                serverTime
+            });
+
+            // Notify guessers
+            var maskedWord = _gameManager.GetMaskedWord(room.RoomCode);
+            await _hubContext.Clients.GroupExcept(room.RoomCode, drawer.ConnectionId).SendAsync("RoundStarted", new
+            {
+                drawer = drawer.Username,
+                wordLength = room.CurrentWord.Length,
+                maskedWord = maskedWord,
+                roundDuration = room.RoundDurationSeconds,
+                roundNumber = room.RoundNumber,
+                totalRounds = room.TotalRounds,
+                roundEndsAt,
+                serverTime
+            });
+        }
+
+        // Deadlines go over the wire as Unix milliseconds (UTC)
+        public static long ToUnixMilliseconds(DateTime utc)
+        {
+            return new DateTimeOffset(DateTime.SpecifyKind(utc, DateTimeKind.Utc)).ToUnixTimeMilliseconds();
+        }
+    }
+}
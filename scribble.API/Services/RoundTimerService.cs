@@ -0,0 +1,61 @@
+using scribble.API.Models;
+
+namespace scribble.API.Services
+{
+    // Picks words, reveals hints, ends rounds and starts the next one on the server's clock, whatever the clients do.
+    // Also drops players who didn't reconnect in time
+    public class RoundTimerService(GameManager gameManager, RoundService roundService, PresenceService presenceService,
+        ILogger<RoundTimerService> logger) : BackgroundService
+    {
+        private static readonly TimeSpan TickInterval = TimeSpan.FromMilliseconds(500);
+
+        private readonly GameManager _gameManager = gameManager;
+        private readonly RoundService _roundService = roundService;
+        private readonly PresenceService _presenceService = presenceService;
+        private readonly ILogger<RoundTimerService> _logger = logger;
+
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            using var timer = new PeriodicTimer(TickInterval);
+
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                foreach (var room in _gameManager.GetAllRooms())
+                {
+                    try
+                    {
+                        await _presenceService.RemoveExpiredAsync(room);
+                        await CheckDeadlinesAsync(room);
+                    }
+                    catch (Exception ex)
+                    {
+                        _logger.LogError(ex, $"Round timer failed for room {room.RoomCode}");
+                    }
+                }
+            }
+        }
+
+        private async Task CheckDeadlinesAsync(GameRoom room)
+        {
+            var now = DateTime.UtcNow;
+
+            if (room.State == GameState.ChoosingWord && now >= room.WordChoiceEndsAt)
+            {
+                await _roundService.ChooseWordAsync(room.RoomCode, null);
+            }
+            else if (room.State == GameState.Drawing && now >= room.RoundEndsAt)
+            {
+                await _roundService.EndRoundAsync(room.RoomCode);
+            }
+            else if (room.State == GameState.Drawing)
+            {
+                await _roundService.RevealHintAsync(room.RoomCode);
+            }
+            else if (room.State == GameState.RoundEnd && now >= room.NextRoundAt)
+            {
+                // With too few players left this ends the game instead of leaving the room stuck
+                await _roundService.NextRoundAsync(room.RoomCode);
+            }
+        }
+    }
+}